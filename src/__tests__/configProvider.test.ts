@@ -85,5 +85,48 @@ suite('ConfigurationProvider', () => {
         vscode.ConfigurationTarget.Global
       )).to.be.true;
     });
+
+    test('should save to the given configuration target', async () => {
+      mockConfig.get.withArgs('profiles', []).returns([]);
+
+      await configProvider.saveConfiguration({
+        activeProfileId: 'workspace-profile-id'
+      }, vscode.ConfigurationTarget.Workspace);
+
+      expect(mockConfig.update.calledWith(
+        'activeProfileId',
+        'workspace-profile-id',
+        vscode.ConfigurationTarget.Workspace
+      )).to.be.true;
+    });
+
+    test('should save the language enable map when provided', async () => {
+      mockConfig.get.withArgs('profiles', []).returns([]);
+
+      await configProvider.saveConfiguration({
+        enable: { '*': true, markdown: true }
+      });
+
+      expect(mockConfig.update.calledWith(
+        'enable',
+        { '*': true, markdown: true },
+        vscode.ConfigurationTarget.Global
+      )).to.be.true;
+      expect(mockConfig.update.calledWith('profiles', sinon.match.any, sinon.match.any)).to.be.false;
+    });
+  });
+
+  suite('getScopedValue', () => {
+    test('should return the value defined at the given scope only', () => {
+      mockConfig.inspect = sandbox.stub().withArgs('profiles').returns({
+        key: 'tabcoder.profiles',
+        globalValue: [{ id: 'global' }],
+        workspaceValue: [{ id: 'workspace' }]
+      });
+
+      expect(configProvider.getScopedValue('profiles', vscode.ConfigurationTarget.Global)).to.deep.equal([{ id: 'global' }]);
+      expect(configProvider.getScopedValue('profiles', vscode.ConfigurationTarget.Workspace)).to.deep.equal([{ id: 'workspace' }]);
+      expect(configProvider.getScopedValue('profiles', vscode.ConfigurationTarget.WorkspaceFolder)).to.be.undefined;
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { expect } from 'chai';
+import { CompletionCache } from '../completionCache';
+
+suite('CompletionCache', () => {
+    let cache: CompletionCache;
+
+    setup(() => {
+        cache = new CompletionCache();
+    });
+
+    test('get should return completions cached for the same context', () => {
+        cache.set('profile', 'const total = ', ';\n', ['sum(values)']);
+
+        expect(cache.get('profile', 'const total = ', ';\n')).to.deep.equal(['sum(values)']);
+    });
+
+    test('get should not return completions of other profiles', () => {
+        cache.set('profile', 'const total = ', ';\n', ['sum(values)']);
+
+        expect(cache.get('other-profile', 'const total = ', ';\n')).to.be.undefined;
+    });
+
+    test('get should ignore line ending differences', () => {
+        cache.set('profile', 'a\r\nconst total = ', ';\r\n', ['sum(values)']);
+
+        expect(cache.get('profile', 'a\nconst total = ', ';\n')).to.deep.equal(['sum(values)']);
+    });
+
+    test('get should only compare the end of the prefix and the beginning of the suffix', () => {
+        cache = new CompletionCache({ prefixTailLength: 10, suffixHeadLength: 5 });
+        cache.set('profile', 'header one\nconst total = ', ';\nfooter one', ['sum(values)']);
+
+        expect(cache.get('profile', 'header two\nconst total = ', ';\nfooter two')).to.deep.equal(['sum(values)']);
+    });
+
+    test('get should return the rest of a completion when its beginning was typed', () => {
+        cache.set('profile', 'const total = ', ';\n', ['sum(values)']);
+
+        expect(cache.get('profile', 'const total = sum(', ';\n')).to.deep.equal(['values)']);
+    });
+
+    test('get should return the alternatives matching the typed text', () => {
+        cache.set('profile', 'const total = ', ';\n', ['sum(values)', 'sum(prices)', 'max(values)']);
+
+        expect(cache.get('profile', 'const total = ', ';\n')).to.deep.equal(['sum(values)', 'sum(prices)', 'max(values)']);
+        expect(cache.get('profile', 'const total = sum(', ';\n')).to.deep.equal(['values)', 'prices)']);
+    });
+
+    test('get should not return completions when the typed text differs', () => {
+        cache.set('profile', 'const total = ', ';\n', ['sum(values)']);
+
+        expect(cache.get('profile', 'const total = max(', ';\n')).to.be.undefined;
+    });
+
+    test('get should not return fully typed completions', () => {
+        cache.set('profile', 'const total = ', ';\n', ['sum(values)']);
+
+        expect(cache.get('profile', 'const total = sum(values)', ';\n')).to.be.undefined;
+    });
+
+    test('get should anchor typed-ahead matches at the start of short files', () => {
+        cache.set('profile', 'x = ', '', ['1 + 2']);
+
+        expect(cache.get('profile', 'x = 1 ', '')).to.deep.equal(['+ 2']);
+        expect(cache.get('profile', 'y = x = 1 ', '')).to.be.undefined;
+    });
+
+    test('set should evict the least recently used entries', () => {
+        cache = new CompletionCache({ maxEntries: 2 });
+        cache.set('profile', 'a', '', ['1']);
+        cache.set('profile', 'b', '', ['2']);
+        cache.get('profile', 'a', '');
+        cache.set('profile', 'c', '', ['3']);
+
+        expect(cache.size).to.equal(2);
+        expect(cache.get('profile', 'a', '')).to.deep.equal(['1']);
+        expect(cache.get('profile', 'b', '')).to.be.undefined;
+    });
+});
@@ -0,0 +1,135 @@
+import { expect } from 'chai';
+import { AutoCompleteContext } from '../context';
+import { applyContextBudget, contextBudgetForModel, fitSnippets, truncatePrefix, truncateSuffix } from '../contextBudget';
+
+suite('contextBudget', () => {
+    const lines = (count: number, text: string) => Array.from({ length: count }, (_, i) => `${text} ${i}`).join('\n');
+
+    const makeContext = (textBeforeCursor: string, textAfterCursor: string): AutoCompleteContext => ({
+        textBeforeCursor,
+        textAfterCursor,
+        currentLineText: '',
+        filename: 'main.ts',
+        language: 'typescript'
+    });
+
+    suite('applyContextBudget', () => {
+        test('applyContextBudget should keep small files untouched', () => {
+            const ctx = makeContext('const a = 1;\nconst b = ', ';\n');
+
+            const { context, truncation } = applyContextBudget(ctx);
+
+            expect(context).to.deep.equal(ctx);
+            expect(truncation).to.deep.equal({ prefixRemovedChars: 0, suffixRemovedChars: 0 });
+        });
+
+        test('applyContextBudget should split the budget using the prefix ratio', () => {
+            const ctx = makeContext(lines(1000, 'before') + '\n', lines(1000, 'after'));
+
+            const { context, truncation } = applyContextBudget(ctx, { maxTokens: 100, prefixRatio: 0.7 });
+
+            expect(context.textBeforeCursor.length).to.be.at.most(280);
+            expect(context.textAfterCursor.length).to.be.at.most(120);
+            expect(context.textBeforeCursor.length).to.be.greaterThan(200);
+            expect(context.textAfterCursor.length).to.be.greaterThan(60);
+            expect(truncation.prefixRemovedChars).to.equal(ctx.textBeforeCursor.length - context.textBeforeCursor.length);
+            expect(truncation.suffixRemovedChars).to.equal(ctx.textAfterCursor.length - context.textAfterCursor.length);
+        });
+
+        test('applyContextBudget should give the unused suffix budget to the prefix', () => {
+            const ctx = makeContext(lines(1000, 'before') + '\n', '');
+
+            const { context } = applyContextBudget(ctx, { maxTokens: 100, prefixRatio: 0.7 });
+
+            expect(context.textBeforeCursor.length).to.be.greaterThan(280);
+            expect(context.textBeforeCursor.length).to.be.at.most(400);
+        });
+
+        test('applyContextBudget should use defaults for missing budget fields', () => {
+            const ctx = makeContext(lines(1000, 'before') + '\n', lines(1000, 'after'));
+
+            const { context } = applyContextBudget(ctx, { maxTokens: 100 });
+
+            expect(context.textBeforeCursor.length).to.be.at.most(280);
+        });
+    });
+
+    suite('fitSnippets', () => {
+        test('fitSnippets should take the snippet tokens from the file budget', () => {
+            const snippet = { filename: 'math.ts', content: 'export function add(a: number, b: number): number' };
+
+            const { snippets, budget } = fitSnippets([snippet], { maxTokens: 1000 });
+
+            expect(snippets).to.deep.equal([snippet]);
+            expect(budget).to.deep.equal({ maxTokens: 985, prefixRatio: 0.7 });
+        });
+
+        test('fitSnippets should drop the snippets exceeding their share of the budget', () => {
+            const small = { filename: 'a.ts', content: 'x'.repeat(200) };
+            const large = { filename: 'b.ts', content: 'y'.repeat(4000) };
+
+            const { snippets, budget } = fitSnippets([large, small], { maxTokens: 1000 });
+
+            expect(snippets).to.deep.equal([small]);
+            expect(budget.maxTokens).to.equal(1000 - 51);
+        });
+    });
+
+    suite('contextBudgetForModel', () => {
+        test('contextBudgetForModel should shrink the budget of small context windows', () => {
+            expect(contextBudgetForModel(2048)).to.deep.equal({ maxTokens: 1024, prefixRatio: 0.7 });
+        });
+
+        test('contextBudgetForModel should keep the default budget of large or unknown context windows', () => {
+            expect(contextBudgetForModel(128000)).to.be.undefined;
+            expect(contextBudgetForModel(undefined)).to.be.undefined;
+        });
+
+        test('contextBudgetForModel should keep the current budget when it fits', () => {
+            const current = { maxTokens: 2000, prefixRatio: 0.5 };
+
+            expect(contextBudgetForModel(128000, current)).to.equal(current);
+            expect(contextBudgetForModel(undefined, current)).to.equal(current);
+            expect(contextBudgetForModel(2048, current)).to.deep.equal({ maxTokens: 1024, prefixRatio: 0.5 });
+        });
+    });
+
+    suite('truncatePrefix', () => {
+        test('truncatePrefix should cut at a line boundary', () => {
+            const result = truncatePrefix('    line one\n    line two\n    line three\n    cur', 30);
+
+            expect(result).to.equal('    line three\n    cur');
+        });
+
+        test('truncatePrefix should prefer top-level statements', () => {
+            const prefix = '  a();\n}\n\nfunction foo() {\n  bar();\n  baz();\n  ';
+            const result = truncatePrefix(prefix, 45);
+
+            expect(result.startsWith('function foo() {')).to.be.true;
+        });
+
+        test('truncatePrefix should always keep the current line', () => {
+            expect(truncatePrefix('first\nsome very long current line', 5)).to.equal('some very long current line');
+        });
+    });
+
+    suite('truncateSuffix', () => {
+        test('truncateSuffix should cut at a line boundary', () => {
+            const result = truncateSuffix(');\n    line one\n    line two\n    line three', 25);
+
+            expect(result).to.equal(');\n    line one');
+        });
+
+        test('truncateSuffix should prefer cutting before top-level statements', () => {
+            const body = '  statement();\n'.repeat(10);
+            const suffix = `\n${body}}\nfunction next() {\n${body}}\n`;
+            const result = truncateSuffix(suffix, 180);
+
+            expect(result).to.equal(`\n${body}}`);
+        });
+
+        test('truncateSuffix should always keep the end of the current line', () => {
+            expect(truncateSuffix('rest of the line\nnext', 3)).to.equal('rest of the line');
+        });
+    });
+});
@@ -0,0 +1,24 @@
+import { expect } from 'chai';
+import { DEFAULT_ENABLED_LANGUAGES, isLanguageEnabled } from '../enablement';
+
+suite('isLanguageEnabled', () => {
+    test('should use the entry of the language', () => {
+        expect(isLanguageEnabled({ '*': true, markdown: false }, 'markdown')).to.be.false;
+        expect(isLanguageEnabled({ '*': false, python: true }, 'python')).to.be.true;
+    });
+
+    test('should fall back to the wildcard entry', () => {
+        expect(isLanguageEnabled({ '*': false }, 'typescript')).to.be.false;
+        expect(isLanguageEnabled({ '*': true }, 'typescript')).to.be.true;
+    });
+
+    test('should enable languages when the map has no entry for them', () => {
+        expect(isLanguageEnabled({}, 'typescript')).to.be.true;
+    });
+
+    test('should disable prose and commit messages by default', () => {
+        expect(isLanguageEnabled(DEFAULT_ENABLED_LANGUAGES, 'plaintext')).to.be.false;
+        expect(isLanguageEnabled(DEFAULT_ENABLED_LANGUAGES, 'scminput')).to.be.false;
+        expect(isLanguageEnabled(DEFAULT_ENABLED_LANGUAGES, 'go')).to.be.true;
+    });
+});
@@ -0,0 +1,88 @@
+import { expect } from 'chai';
+import { Profile, PromptTemplate } from '../../types';
+import { HoleFillerRegistry } from '../holeFillerRegistry';
+import { CustomHoleFiller, DefaultHoleFiller, FimTokensHoleFiller, renderTemplate } from '../holeFiller';
+import { AutoCompleteContext } from '../context';
+
+suite('HoleFillerRegistry', () => {
+    let registry: HoleFillerRegistry;
+
+    const profile: Profile = {
+        id: 'test-profile',
+        name: 'Test Profile',
+        provider: 'openrouter',
+        baseURL: 'https://openrouter.ai/api/v1',
+        modelId: 'mistralai/codestral-2508'
+    };
+
+    const customTemplate: PromptTemplate = {
+        id: 'my-template',
+        systemPrompt: 'Complete code.',
+        userPrompt: '{{prefix}}<FILL>{{suffix}}',
+        modelIdPattern: '^mistralai/'
+    };
+
+    setup(() => {
+        registry = new HoleFillerRegistry();
+    });
+
+    test('resolve should return the default hole filler without configuration', () => {
+        expect(registry.resolve(profile)).to.be.instanceOf(DefaultHoleFiller);
+    });
+
+    test('resolve should return the built-in template set on the profile', () => {
+        const holeFiller = registry.resolve({ ...profile, promptTemplate: 'fim-qwen' });
+
+        expect(holeFiller).to.be.instanceOf(FimTokensHoleFiller);
+        expect(holeFiller.systemPrompt()).to.equal('');
+    });
+
+    test('resolve should prefer user-defined templates set on the profile', () => {
+        const holeFiller = registry.resolve({ ...profile, promptTemplate: 'my-template' }, [customTemplate]);
+
+        expect(holeFiller).to.be.instanceOf(CustomHoleFiller);
+        expect(holeFiller.systemPrompt()).to.equal('Complete code.');
+    });
+
+    test('resolve should select user-defined templates by model ID pattern', () => {
+        expect(registry.resolve(profile, [customTemplate])).to.be.instanceOf(CustomHoleFiller);
+        expect(registry.resolve({ ...profile, modelId: 'openai/gpt-4o' }, [customTemplate])).to.be.instanceOf(DefaultHoleFiller);
+    });
+
+    test('resolve should fall back to the default hole filler for unknown templates', () => {
+        expect(registry.resolve({ ...profile, promptTemplate: 'unknown' })).to.be.instanceOf(DefaultHoleFiller);
+    });
+
+    test('resolve should ignore invalid model ID patterns', () => {
+        const invalid = { ...customTemplate, modelIdPattern: '(' };
+
+        expect(registry.resolve(profile, [invalid])).to.be.instanceOf(DefaultHoleFiller);
+    });
+
+    test('register should make a hole filler selectable by ID', () => {
+        const holeFiller = new DefaultHoleFiller();
+        registry.register('custom', holeFiller);
+
+        expect(registry.ids()).to.include('custom');
+        expect(registry.resolve({ ...profile, promptTemplate: 'custom' })).to.equal(holeFiller);
+    });
+});
+
+suite('renderTemplate', () => {
+    const ctx: AutoCompleteContext = {
+        textBeforeCursor: 'const a = ',
+        textAfterCursor: ';',
+        currentLineText: 'const a = ;',
+        filename: 'main.ts',
+        language: 'typescript'
+    };
+
+    test('renderTemplate should replace all placeholders', () => {
+        expect(renderTemplate('// {{filename}} ({{language}})\n{{prefix}}<HOLE>{{ suffix }}', ctx))
+            .to.equal('// main.ts (typescript)\nconst a = <HOLE>;');
+    });
+
+    test('renderTemplate should leave unknown placeholders untouched', () => {
+        expect(renderTemplate('{{prefix}}{{cursor}}', ctx)).to.equal('const a = {{cursor}}');
+    });
+});
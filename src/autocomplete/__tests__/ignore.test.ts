@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import { globToRegExpSource, IgnoreRules } from '../ignore';
+
+suite('IgnoreRules', () => {
+    function rules(content: string): IgnoreRules {
+        const ignoreRules = new IgnoreRules();
+        ignoreRules.add(content);
+        return ignoreRules;
+    }
+
+    test('should skip comments and blank lines', () => {
+        expect(rules('# comment\n\n   \n').size).to.equal(0);
+    });
+
+    test('should match file names at any depth', () => {
+        const ignoreRules = rules('*.log\n.env');
+
+        expect(ignoreRules.isIgnored('debug.log')).to.be.true;
+        expect(ignoreRules.isIgnored('logs/app/debug.log')).to.be.true;
+        expect(ignoreRules.isIgnored('config/.env')).to.be.true;
+        expect(ignoreRules.isIgnored('src/app.ts')).to.be.false;
+    });
+
+    test('should ignore the files of ignored directories', () => {
+        const ignoreRules = rules('node_modules/\ndist');
+
+        expect(ignoreRules.isIgnored('node_modules/lib/index.js')).to.be.true;
+        expect(ignoreRules.isIgnored('packages/a/node_modules/x.js')).to.be.true;
+        expect(ignoreRules.isIgnored('dist/extension.js')).to.be.true;
+    });
+
+    test('should only match directories with patterns ending with a slash', () => {
+        expect(rules('build/').isIgnored('build')).to.be.false;
+        expect(rules('build/').isIgnored('build/out.js')).to.be.true;
+    });
+
+    test('should anchor patterns containing a slash', () => {
+        const ignoreRules = rules('/vendor\nsrc/generated/');
+
+        expect(ignoreRules.isIgnored('vendor/lib.go')).to.be.true;
+        expect(ignoreRules.isIgnored('pkg/vendor/lib.go')).to.be.false;
+        expect(ignoreRules.isIgnored('src/generated/api.ts')).to.be.true;
+        expect(ignoreRules.isIgnored('app/src/generated/api.ts')).to.be.false;
+    });
+
+    test('should support double asterisks', () => {
+        const ignoreRules = rules('**/fixtures/**\ndocs/**/*.md');
+
+        expect(ignoreRules.isIgnored('fixtures/a.json')).to.be.true;
+        expect(ignoreRules.isIgnored('test/fixtures/deep/a.json')).to.be.true;
+        expect(ignoreRules.isIgnored('docs/guide.md')).to.be.true;
+        expect(ignoreRules.isIgnored('docs/api/v1/index.md')).to.be.true;
+        expect(ignoreRules.isIgnored('docs/index.html')).to.be.false;
+    });
+
+    test('should re-include files with negated patterns', () => {
+        const ignoreRules = rules('*.generated.ts\n!keep.generated.ts');
+
+        expect(ignoreRules.isIgnored('api.generated.ts')).to.be.true;
+        expect(ignoreRules.isIgnored('src/keep.generated.ts')).to.be.false;
+    });
+
+    test('should apply the rules of nested files to their directory only', () => {
+        const ignoreRules = new IgnoreRules();
+        ignoreRules.add('*.tmp');
+        ignoreRules.add('/out\n!important.tmp', 'packages/app');
+
+        expect(ignoreRules.isIgnored('packages/app/out/main.js')).to.be.true;
+        expect(ignoreRules.isIgnored('out/main.js')).to.be.false;
+        expect(ignoreRules.isIgnored('packages/app/important.tmp')).to.be.false;
+        expect(ignoreRules.isIgnored('important.tmp')).to.be.true;
+    });
+
+    test('should support escaped characters and character classes', () => {
+        const ignoreRules = rules('\\#notes\nfile[0-9].txt\nlog[!a].txt');
+
+        expect(ignoreRules.isIgnored('#notes')).to.be.true;
+        expect(ignoreRules.isIgnored('file1.txt')).to.be.true;
+        expect(ignoreRules.isIgnored('fileA.txt')).to.be.false;
+        expect(ignoreRules.isIgnored('logb.txt')).to.be.true;
+        expect(ignoreRules.isIgnored('loga.txt')).to.be.false;
+    });
+
+    suite('globToRegExpSource', () => {
+        test('should not match slashes with single asterisks', () => {
+            const regex = new RegExp(`^${globToRegExpSource('src/*.ts')}$`);
+
+            expect(regex.test('src/a.ts')).to.be.true;
+            expect(regex.test('src/a/b.ts')).to.be.false;
+        });
+    });
+});
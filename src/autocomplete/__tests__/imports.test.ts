@@ -0,0 +1,75 @@
+import { expect } from 'chai';
+import { extractSignature, findImportedIdentifiers } from '../imports';
+
+suite('imports', () => {
+    suite('findImportedIdentifiers', () => {
+        test('findImportedIdentifiers should find TypeScript named and default imports', () => {
+            const identifiers = findImportedIdentifiers([
+                "import * as vscode from 'vscode';",
+                "import Logger, { info, warn as warning } from './logger';",
+                '',
+                'const x = info();'
+            ]);
+
+            expect(identifiers.map(i => i.name)).to.deep.equal(['vscode', 'Logger', 'info', 'warn', 'warning']);
+            expect(identifiers[1]).to.deep.equal({ name: 'Logger', line: 1, character: 7 });
+        });
+
+        test('findImportedIdentifiers should handle multi-line imports', () => {
+            const identifiers = findImportedIdentifiers([
+                'import {',
+                '  Profile,',
+                '  type Model,',
+                "} from '../types';",
+                'const Other = 1;'
+            ]);
+
+            expect(identifiers.map(i => i.name)).to.deep.equal(['Profile', 'Model']);
+            expect(identifiers[0]).to.deep.equal({ name: 'Profile', line: 1, character: 2 });
+        });
+
+        test('findImportedIdentifiers should find Python imports', () => {
+            const identifiers = findImportedIdentifiers([
+                'from utils.math import (',
+                '    add,',
+                '    subtract,  # comment',
+                ')',
+                'import os'
+            ]);
+
+            expect(identifiers.map(i => i.name)).to.deep.equal(['utils', 'math', 'add', 'subtract', 'os']);
+        });
+
+        test('findImportedIdentifiers should find Rust use declarations', () => {
+            const identifiers = findImportedIdentifiers(['use crate::config::{Config, load};']);
+
+            expect(identifiers.map(i => i.name)).to.deep.equal(['config', 'Config', 'load']);
+        });
+    });
+
+    suite('extractSignature', () => {
+        test('extractSignature should drop function bodies', () => {
+            expect(extractSignature('export function add(a: number, b: number): number {\n  return a + b;\n}'))
+                .to.equal('export function add(a: number, b: number): number');
+        });
+
+        test('extractSignature should ignore braces inside parameters', () => {
+            expect(extractSignature('function f(opts: { a: number }) {\n  return opts.a;\n}'))
+                .to.equal('function f(opts: { a: number })');
+        });
+
+        test('extractSignature should keep multi-line parameters', () => {
+            expect(extractSignature('def add(\n    a: int,\n    b: int,\n) -> int:\n    return a + b'))
+                .to.equal('def add(\n    a: int,\n    b: int,\n) -> int:');
+        });
+
+        test('extractSignature should drop arrow function bodies', () => {
+            expect(extractSignature('export const add = (a: number, b: number) => a + b;'))
+                .to.equal('export const add = (a: number, b: number) =>');
+        });
+
+        test('extractSignature should limit declarations without body', () => {
+            expect(extractSignature('a\nb\nc\nd', 2)).to.equal('a\nb');
+        });
+    });
+});
@@ -0,0 +1,129 @@
+import { expect } from 'chai';
+import {
+    balanceBrackets,
+    dropEmpty,
+    fixIndentation,
+    postProcess,
+    PostProcessor,
+    trimSuffixOverlap,
+    uniqueCompletions,
+} from '../postProcessing';
+
+suite('Post-processing', () => {
+    suite('trimSuffixOverlap', () => {
+        test('should remove the rest of the line repeated by the completion', () => {
+            const ctx = { textBeforeCursor: 'foo(', textAfterCursor: ');\nbar();' };
+
+            expect(trimSuffixOverlap('a, b);', ctx)).to.equal('a, b');
+        });
+
+        test('should keep the whitespace before the repeated text', () => {
+            const ctx = { textBeforeCursor: 'return ', textAfterCursor: 'value;' };
+
+            expect(trimSuffixOverlap('a + value;', ctx)).to.equal('a + ');
+        });
+
+        test('should remove trailing lines repeating the next lines', () => {
+            const ctx = { textBeforeCursor: 'if (a) {\n    ', textAfterCursor: '\n}\n\nfoo();' };
+
+            expect(trimSuffixOverlap('x();\n}\n', ctx)).to.equal('x();');
+        });
+
+        test('should compare lines regardless of their indentation', () => {
+            const ctx = { textBeforeCursor: 'def f():\n    ', textAfterCursor: '\n    return x\n' };
+
+            expect(trimSuffixOverlap('x = 1\n  return x', ctx)).to.equal('x = 1');
+        });
+
+        test('should keep the brackets closed by the completion itself', () => {
+            expect(postProcess('getValue()', { textBeforeCursor: 'console.log(', textAfterCursor: ')\nfoo();' })).to.equal('getValue()');
+            expect(postProcess('items[0]', { textBeforeCursor: 'const first = ', textAfterCursor: ']' })).to.equal('items[0]');
+        });
+
+        test('should keep the strings closed by the completion itself', () => {
+            const ctx = { textBeforeCursor: 'print(', textAfterCursor: '")' };
+
+            expect(trimSuffixOverlap('"done")', ctx)).to.equal('"done")');
+        });
+
+        test('should keep completions not overlapping the suffix', () => {
+            const ctx = { textBeforeCursor: 'const a = ', textAfterCursor: '\nconst b = 2;' };
+
+            expect(trimSuffixOverlap('1;\nconst c = 3;', ctx)).to.equal('1;\nconst c = 3;');
+        });
+    });
+
+    suite('balanceBrackets', () => {
+        test('should remove closing brackets already present after the cursor', () => {
+            const ctx = { textBeforeCursor: 'if (a) {\n    foo(', textAfterCursor: '\n}' };
+
+            expect(balanceBrackets('x);\n}', ctx)).to.equal('x);');
+        });
+
+        test('should keep brackets closing the text before the cursor', () => {
+            const ctx = { textBeforeCursor: 'foo(bar(', textAfterCursor: '' };
+
+            expect(balanceBrackets('x))', ctx)).to.equal('x))');
+        });
+
+        test('should keep brackets matched within the completion', () => {
+            const ctx = { textBeforeCursor: '', textAfterCursor: '' };
+
+            expect(balanceBrackets('if (a) {\n    b[0]();\n}', ctx)).to.equal('if (a) {\n    b[0]();\n}');
+        });
+
+        test('should ignore brackets in strings', () => {
+            const ctx = { textBeforeCursor: 'log("(" + ', textAfterCursor: ');' };
+
+            expect(balanceBrackets('x + ")")', ctx)).to.equal('x + ")"');
+        });
+    });
+
+    suite('fixIndentation', () => {
+        test('should remove the indentation repeated by the completion', () => {
+            const ctx = { textBeforeCursor: 'if (a) {\n    ', textAfterCursor: '' };
+
+            expect(fixIndentation('    x();\n    y();', ctx)).to.equal('x();\n    y();');
+        });
+
+        test('should shift lines written relative to column 0 to the cursor', () => {
+            const ctx = { textBeforeCursor: 'if (a) {\n    ', textAfterCursor: '' };
+
+            expect(fixIndentation('if (b) {\n    x();\n}', ctx)).to.equal('if (b) {\n        x();\n    }');
+        });
+
+        test('should not change completions after code', () => {
+            const ctx = { textBeforeCursor: '    const a = ', textAfterCursor: '' };
+
+            expect(fixIndentation('  1;', ctx)).to.equal('  1;');
+        });
+    });
+
+    suite('dropEmpty', () => {
+        test('should drop whitespace-only completions', () => {
+            expect(dropEmpty(' \n\t', { textBeforeCursor: '', textAfterCursor: '' })).to.equal('');
+        });
+    });
+
+    suite('postProcess', () => {
+        test('should run the default chain', () => {
+            const ctx = { textBeforeCursor: 'foo(', textAfterCursor: ')' };
+
+            expect(postProcess(')', ctx)).to.equal('');
+            expect(postProcess('a, b)', ctx)).to.equal('a, b');
+        });
+
+        test('should run custom processors in order', () => {
+            const upper: PostProcessor = text => text.toUpperCase();
+            const exclaim: PostProcessor = text => `${text}!`;
+
+            expect(postProcess('a', { textBeforeCursor: '', textAfterCursor: '' }, [upper, exclaim])).to.equal('A!');
+        });
+    });
+
+    suite('uniqueCompletions', () => {
+        test('should drop empty completions and duplicates', () => {
+            expect(uniqueCompletions(['a + b', '', 'a + b\n', 'a - b', '  '])).to.deep.equal(['a + b', 'a - b']);
+        });
+    });
+});
@@ -0,0 +1,63 @@
+import { expect } from 'chai';
+import { formatSnippets, jaccardSimilarity, lineCommentPrefix, prefixWithSnippets, rankSnippets, tokenize } from '../snippets';
+
+suite('snippets', () => {
+    test('tokenize should extract identifiers', () => {
+        expect([...tokenize('const total = sumValues(items, $el);')]).to.deep.equal(['const', 'total', 'sumValues', 'items', '$el']);
+    });
+
+    test('jaccardSimilarity should compute the similarity of two token sets', () => {
+        expect(jaccardSimilarity(new Set(['a', 'b']), new Set(['b', 'c']))).to.equal(1 / 3);
+        expect(jaccardSimilarity(new Set(), new Set())).to.equal(0);
+    });
+
+    suite('rankSnippets', () => {
+        const sources = [
+            { filename: 'src/unrelated.ts', content: 'export const color = "red";\nexport const size = 12;' },
+            { filename: 'src/math.ts', content: 'import x from "y";\n\nexport function sumValues(items: number[]) {\n  return items.reduce((a, b) => a + b, 0);\n}' },
+            { filename: 'src/empty.ts', content: '' }
+        ];
+
+        test('rankSnippets should order sources by similarity', () => {
+            const snippets = rankSnippets('const total = sumValues(items);', sources, { maxSnippets: 3, windowLines: 3 });
+
+            expect(snippets.map(s => s.filename)).to.deep.equal(['src/math.ts', 'src/unrelated.ts']);
+            expect(snippets[0].content).to.include('sumValues');
+        });
+
+        test('rankSnippets should limit the number of snippets', () => {
+            const snippets = rankSnippets('export const sumValues', sources, { maxSnippets: 1, windowLines: 3 });
+
+            expect(snippets).to.have.length(1);
+        });
+
+        test('rankSnippets should return nothing for an empty query', () => {
+            expect(rankSnippets('  ', sources, { maxSnippets: 3, windowLines: 3 })).to.deep.equal([]);
+        });
+    });
+
+    test('lineCommentPrefix should depend on the language', () => {
+        expect(lineCommentPrefix('python')).to.equal('#');
+        expect(lineCommentPrefix('typescript')).to.equal('//');
+        expect(lineCommentPrefix(undefined)).to.equal('//');
+        expect(lineCommentPrefix('')).to.equal('//');
+    });
+
+    test('formatSnippets should comment out file excerpts', () => {
+        const formatted = formatSnippets([{ filename: 'utils.py', content: 'def add(a, b):\n\n    return a + b' }], 'python');
+
+        expect(formatted).to.equal('# Path: utils.py\n# def add(a, b):\n#\n#     return a + b\n');
+    });
+
+    test('prefixWithSnippets should place snippets before the prefix', () => {
+        const prefix = prefixWithSnippets({
+            textBeforeCursor: 'x = add(',
+            textAfterCursor: ')',
+            currentLineText: 'x = add()',
+            language: 'python',
+            snippets: [{ filename: 'utils.py', content: 'def add(a, b):' }]
+        });
+
+        expect(prefix).to.equal('# Path: utils.py\n# def add(a, b):\nx = add(');
+    });
+});
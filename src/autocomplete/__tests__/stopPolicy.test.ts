@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import { applyStopPolicies, createStopPolicies, indentationWidth, stopAtBlockEnd, stopAtFirstLine } from '../stopPolicy';
+
+suite('Stop policies', () => {
+    suite('indentationWidth', () => {
+        test('should count spaces and tabs', () => {
+            expect(indentationWidth('    foo')).to.equal(4);
+            expect(indentationWidth('\t\tfoo')).to.equal(8);
+            expect(indentationWidth('foo')).to.equal(0);
+        });
+    });
+
+    suite('stopAtFirstLine', () => {
+        test('should stop at the first line break', () => {
+            expect(applyStopPolicies('a, b)\nfoo();', [stopAtFirstLine])).to.deep.equal({ text: 'a, b)', stopped: true });
+        });
+
+        test('should not stop single line completions', () => {
+            expect(applyStopPolicies('a, b', [stopAtFirstLine])).to.deep.equal({ text: 'a, b', stopped: false });
+        });
+    });
+
+    suite('stopAtBlockEnd', () => {
+        test('should keep the closing bracket of the block and stop after it', () => {
+            const completion = '\n    return a + b;\n}\n\nfunction sub(a, b) {\n';
+
+            expect(applyStopPolicies(completion, [stopAtBlockEnd(0)])).to.deep.equal({
+                text: '\n    return a + b;\n}',
+                stopped: true,
+            });
+        });
+
+        test('should stop before a new statement at the parent level', () => {
+            const completion = '\n    return 1\n\ndef bar():\n    return 2\n';
+
+            expect(applyStopPolicies(completion, [stopAtBlockEnd(0)]).text).to.equal('\n    return 1');
+        });
+
+        test('should stop before lines indented less than the cursor line', () => {
+            const completion = 'const b = 2;\n    const c = 3;\n}\n';
+
+            expect(applyStopPolicies(completion, [stopAtBlockEnd(4)]).text).to.equal('const b = 2;\n    const c = 3;');
+        });
+
+        test('should keep statements at the cursor level before going deeper', () => {
+            const completion = 'const a = 1;\nconst b = 2;\nif (a) {\n    log(a);\n}';
+
+            expect(applyStopPolicies(completion, [stopAtBlockEnd(0)])).to.deep.equal({ text: completion, stopped: true });
+        });
+
+        test('should continue blocks with else branches', () => {
+            const completion = 'if (a) {\n    x();\n} else {\n    y();\n}\nz();';
+
+            expect(applyStopPolicies(completion, [stopAtBlockEnd(0)]).text).to.equal('if (a) {\n    x();\n} else {\n    y();\n}');
+        });
+
+        test('should wait for the end of the last line while streaming', () => {
+            const policy = stopAtBlockEnd(0);
+
+            expect(applyStopPolicies('if (a) {\n    x();\n}', [policy], false).stopped).to.be.false;
+            expect(applyStopPolicies('if (a) {\n    x();\n})', [policy], false).stopped).to.be.false;
+            expect(applyStopPolicies('if (a) {\n    x();\n});\n', [policy], false)).to.deep.equal({
+                text: 'if (a) {\n    x();\n});',
+                stopped: true,
+            });
+        });
+
+        test('should ignore partial indentation while streaming', () => {
+            expect(applyStopPolicies('\n    x();\n  ', [stopAtBlockEnd(4)], false).stopped).to.be.false;
+        });
+    });
+
+    suite('createStopPolicies', () => {
+        test('should complete a single line in the middle of a line', () => {
+            const policies = createStopPolicies({ linePrefix: 'foo(', lineSuffix: ');' });
+
+            expect(applyStopPolicies('a, b\n    bar();', policies).text).to.equal('a, b');
+        });
+
+        test('should complete the block in the middle of a line when multiline is requested', () => {
+            const policies = createStopPolicies({ linePrefix: 'foo(', lineSuffix: ');', multiline: true });
+
+            expect(applyStopPolicies('a, b\n    bar();', policies).text).to.equal('a, b\n    bar();');
+        });
+
+        test('should complete the block at the end of a line', () => {
+            const policies = createStopPolicies({ linePrefix: '    if (a) {', lineSuffix: '  ' });
+
+            expect(applyStopPolicies('\n        x();\n    }\n    y();', policies).text).to.equal('\n        x();\n    }');
+        });
+    });
+});
@@ -0,0 +1,99 @@
+import { expect } from 'chai';
+import { resolveTriggerSettings, TriggerPolicy } from '../triggerPolicy';
+import { LanguageTriggerSettings, TriggerSettings } from '../../types';
+
+suite('Trigger policy', () => {
+    const defaults: LanguageTriggerSettings = {
+        mode: 'automatic',
+        debounceMs: 300,
+        adaptiveDebounce: true,
+        rapidChangeWindowMs: 100,
+        maxLineLength: 200,
+        skipMidWord: true,
+    };
+
+    suite('resolveTriggerSettings', () => {
+        test('should apply the overrides of the language', () => {
+            const settings: TriggerSettings = {
+                ...defaults,
+                languageOverrides: { markdown: { mode: 'manual' }, python: { debounceMs: 500 } },
+            };
+
+            expect(resolveTriggerSettings(settings, 'python')).to.deep.equal({ ...defaults, debounceMs: 500 });
+            expect(resolveTriggerSettings(settings, 'markdown')).to.deep.equal({ ...defaults, mode: 'manual' });
+        });
+
+        test('should return the defaults for other languages', () => {
+            expect(resolveTriggerSettings({ ...defaults, languageOverrides: {} }, 'go')).to.deep.equal(defaults);
+        });
+    });
+
+    suite('TriggerPolicy', () => {
+        let policy: TriggerPolicy;
+
+        setup(() => {
+            policy = new TriggerPolicy();
+        });
+
+        test('should use the configured delay without history', () => {
+            expect(policy.debounceDelay(defaults)).to.equal(300);
+        });
+
+        test('should lengthen the delay when completions are rejected', () => {
+            policy.recordRejected();
+            policy.recordRejected();
+            policy.recordAccepted();
+            policy.recordAccepted();
+
+            expect(policy.debounceDelay(defaults)).to.equal(450);
+        });
+
+        test('should at most double the delay', () => {
+            for (let i = 0; i < 20; i++) {
+                policy.recordRejected();
+            }
+            policy.recordLatency(5000);
+
+            expect(policy.debounceDelay(defaults)).to.equal(600);
+        });
+
+        test('should only remember the outcome of recent completions', () => {
+            for (let i = 0; i < 10; i++) {
+                policy.recordRejected();
+            }
+            for (let i = 0; i < 10; i++) {
+                policy.recordAccepted();
+            }
+
+            expect(policy.debounceDelay(defaults)).to.equal(300);
+        });
+
+        test('should shorten the delay when the provider is fast', () => {
+            policy.recordLatency(0);
+
+            expect(policy.debounceDelay(defaults)).to.equal(150);
+        });
+
+        test('should smooth the provider latency', () => {
+            policy.recordLatency(0);
+            policy.recordLatency(1000);
+
+            // Average latency of 300ms.
+            expect(policy.debounceDelay(defaults)).to.equal(240);
+        });
+
+        test('should not adapt the delay when disabled', () => {
+            policy.recordRejected();
+            policy.recordLatency(0);
+
+            expect(policy.debounceDelay({ ...defaults, adaptiveDebounce: false })).to.equal(300);
+        });
+
+        test('reset should forget the history', () => {
+            policy.recordRejected();
+            policy.reset();
+
+            expect(policy.debounceDelay(defaults)).to.equal(300);
+        });
+    });
+});
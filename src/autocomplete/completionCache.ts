@@ -0,0 +1,129 @@
+type CacheEntry = {
+  profileId: string;
+  prefixTail: string;
+  suffixHead: string;
+  // Whether the tail is the whole text before the cursor (start of the file).
+  wholePrefix: boolean;
+  // The alternatives shown for the context, in order.
+  completions: string[];
+}
+
+export type CompletionCacheOptions = {
+  maxEntries: number;
+  prefixTailLength: number;
+  suffixHeadLength: number;
+}
+
+const DEFAULT_OPTIONS: CompletionCacheOptions = {
+  maxEntries: 100,
+  prefixTailLength: 1000,
+  suffixHeadLength: 200,
+};
+
+/**
+ * LRU cache of completions, keyed by profile, end of the text before the
+ * cursor and beginning of the text after it.
+ *
+ * When the text typed since completions were cached matches the beginning
+ * of some of them, the rest of those is returned (typed-ahead reuse).
+ */
+export class CompletionCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private options: CompletionCacheOptions;
+
+  constructor(options: Partial<CompletionCacheOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  public get(profileId: string, prefix: string, suffix: string): string[] | undefined {
+    const prefixTail = this.prefixTail(prefix);
+    const suffixHead = this.suffixHead(suffix);
+
+    const key = this.key(profileId, prefixTail, suffixHead);
+    const exact = this.entries.get(key);
+    if (exact) {
+      this.touch(key, exact);
+      return exact.completions;
+    }
+
+    const normalizedPrefix = normalize(prefix);
+    for (const [entryKey, entry] of this.entries) {
+      if (entry.profileId !== profileId || entry.suffixHead !== suffixHead) {
+        continue;
+      }
+      const typed = this.typedSince(entry, normalizedPrefix);
+      const rests = typed
+        ? entry.completions.filter(completion => typed.length < completion.length && completion.startsWith(typed)).map(completion => completion.slice(typed.length))
+        : [];
+      if (rests.length > 0) {
+        this.touch(entryKey, entry);
+        return rests;
+      }
+    }
+
+    return undefined;
+  }
+
+  public set(profileId: string, prefix: string, suffix: string, completions: string[]): void {
+    const prefixTail = this.prefixTail(prefix);
+    const suffixHead = this.suffixHead(suffix);
+    const key = this.key(profileId, prefixTail, suffixHead);
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      profileId,
+      prefixTail,
+      suffixHead,
+      wholePrefix: normalize(prefix).length <= this.options.prefixTailLength,
+      completions,
+    });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  // Text typed after the cached prefix, or undefined if the prefix doesn't continue it.
+  private typedSince(entry: CacheEntry, prefix: string): string | undefined {
+    const longest = Math.max(...entry.completions.map(completion => completion.length));
+    const window = prefix.slice(-(entry.prefixTail.length + longest));
+    const index = window.lastIndexOf(entry.prefixTail);
+    if (index === -1) {
+      return undefined;
+    }
+    if (entry.wholePrefix && prefix.length !== window.length - index) {
+      return undefined;
+    }
+    return window.slice(index + entry.prefixTail.length);
+  }
+
+  private touch(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+
+  private prefixTail(prefix: string): string {
+    return normalize(prefix).slice(-this.options.prefixTailLength);
+  }
+
+  private suffixHead(suffix: string): string {
+    return normalize(suffix).slice(0, this.options.suffixHeadLength);
+  }
+
+  private key(profileId: string, prefixTail: string, suffixHead: string): string {
+    return `${profileId}\u0000${prefixTail}\u0000${suffixHead}`;
+  }
+}
+
+function normalize(text: string): string {
+  return text.replace(/\r\n/g, '\n');
+}
@@ -1,7 +1,14 @@
+// Excerpt of another file, given to the model as extra context.
+export type CodeSnippet = {
+  filename: string,
+  content: string,
+}
+
 export type AutoCompleteContext = {
   textBeforeCursor: string,
   textAfterCursor: string,
   currentLineText: string,
   filename?: string,
   language?: string,
+  snippets?: CodeSnippet[],
 }
\ No newline at end of file
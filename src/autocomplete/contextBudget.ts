@@ -0,0 +1,173 @@
+import { type AutoCompleteContext, type CodeSnippet } from "./context";
+import { type ContextBudget } from "../types";
+
+export const DEFAULT_CONTEXT_BUDGET: ContextBudget = {
+  maxTokens: 4096,
+  prefixRatio: 0.7,
+};
+
+// Share of the context window of a model given to the file context, the rest
+// is left for the prompt, snippets of other files and the completion.
+const CONTEXT_WINDOW_FILE_SHARE = 0.5;
+
+// Share of the budget which snippets of other files can use, the file context
+// gets the rest.
+const MAX_SNIPPETS_SHARE = 0.4;
+
+// Rough estimation used for budgeting, without shipping a tokenizer for each model.
+const CHARS_PER_TOKEN = 4;
+
+// How far past the first line boundary we look for a syntactic boundary,
+// as a share of the kept text.
+const BOUNDARY_SEARCH_RATIO = 0.2;
+
+export type ContextTruncation = {
+  prefixRemovedChars: number;
+  suffixRemovedChars: number;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Budget of a model with the given context window: the current budget (the
+ * default one when unset), lowered when it doesn't fit in the window. Larger
+ * windows keep it, longer prompts being slower.
+ */
+export function contextBudgetForModel(contextLength: number | undefined, current?: ContextBudget): ContextBudget | undefined {
+  if (!contextLength || contextLength <= 0) {
+    return current;
+  }
+  const maxTokens = Math.floor(contextLength * CONTEXT_WINDOW_FILE_SHARE);
+  const budget = current ?? DEFAULT_CONTEXT_BUDGET;
+  return maxTokens < budget.maxTokens ? { ...budget, maxTokens } : current;
+}
+
+/**
+ * Keep the snippets fitting in their share of the budget, in order of priority,
+ * and return the budget left for the file context.
+ */
+export function fitSnippets(
+  snippets: CodeSnippet[],
+  budget: Partial<ContextBudget> = {}
+): { snippets: CodeSnippet[]; budget: ContextBudget } {
+  const fullBudget = { ...DEFAULT_CONTEXT_BUDGET, ...budget };
+  const maxTokens = Math.floor(Math.max(0, fullBudget.maxTokens) * MAX_SNIPPETS_SHARE);
+
+  let tokens = 0;
+  const kept = snippets.filter(snippet => {
+    const snippetTokens = estimateTokens(snippet.filename) + estimateTokens(snippet.content);
+    if (tokens + snippetTokens > maxTokens) {
+      return false;
+    }
+    tokens += snippetTokens;
+    return true;
+  });
+
+  return { snippets: kept, budget: { ...fullBudget, maxTokens: fullBudget.maxTokens - tokens } };
+}
+
+/**
+ * Trim the text before and after the cursor to fit in the given token budget.
+ * The budget is split between prefix and suffix using the prefix ratio, and the
+ * share left unused by one side is given to the other.
+ */
+export function applyContextBudget(
+  ctx: AutoCompleteContext,
+  budget: Partial<ContextBudget> = {}
+): { context: AutoCompleteContext; truncation: ContextTruncation } {
+  const { maxTokens, prefixRatio: ratio } = { ...DEFAULT_CONTEXT_BUDGET, ...budget };
+  const maxChars = Math.max(0, maxTokens) * CHARS_PER_TOKEN;
+  const prefixRatio = Math.min(1, Math.max(0, ratio));
+
+  let prefixChars = Math.floor(maxChars * prefixRatio);
+  let suffixChars = maxChars - prefixChars;
+
+  if (ctx.textAfterCursor.length < suffixChars) {
+    prefixChars += suffixChars - ctx.textAfterCursor.length;
+    suffixChars = ctx.textAfterCursor.length;
+  } else if (ctx.textBeforeCursor.length < prefixChars) {
+    suffixChars += prefixChars - ctx.textBeforeCursor.length;
+    prefixChars = ctx.textBeforeCursor.length;
+  }
+
+  const textBeforeCursor = truncatePrefix(ctx.textBeforeCursor, prefixChars);
+  const textAfterCursor = truncateSuffix(ctx.textAfterCursor, suffixChars);
+
+  return {
+    context: { ...ctx, textBeforeCursor, textAfterCursor },
+    truncation: {
+      prefixRemovedChars: ctx.textBeforeCursor.length - textBeforeCursor.length,
+      suffixRemovedChars: ctx.textAfterCursor.length - textAfterCursor.length,
+    },
+  };
+}
+
+/**
+ * Keep the end of the prefix, starting at a line boundary, and preferably
+ * at the start of a top-level statement.
+ */
+export function truncatePrefix(prefix: string, maxChars: number): string {
+  if (prefix.length <= maxChars) {
+    return prefix;
+  }
+
+  let start = prefix.length - maxChars;
+
+  // The current line is always kept, even if it exceeds the budget.
+  const lastLineStart = prefix.lastIndexOf('\n') + 1;
+  if (start >= lastLineStart) {
+    return prefix.slice(lastLineStart);
+  }
+
+  const lineStart = prefix.indexOf('\n', start - 1) + 1;
+  start = lineStart > 0 && lineStart <= lastLineStart ? lineStart : start;
+
+  const searchLimit = start + Math.floor(maxChars * BOUNDARY_SEARCH_RATIO);
+  let candidate = start;
+  while (candidate < searchLimit && candidate < lastLineStart) {
+    if (isTopLevelLine(prefix, candidate)) {
+      return prefix.slice(candidate);
+    }
+    candidate = prefix.indexOf('\n', candidate) + 1;
+  }
+
+  return prefix.slice(start);
+}
+
+/**
+ * Keep the beginning of the suffix, ending at a line boundary, and preferably
+ * right before the start of a top-level statement.
+ */
+export function truncateSuffix(suffix: string, maxChars: number): string {
+  if (suffix.length <= maxChars) {
+    return suffix;
+  }
+
+  // The end of the current line is always kept, even if it exceeds the budget.
+  const firstLineEnd = suffix.indexOf('\n');
+  if (firstLineEnd === -1 || maxChars <= firstLineEnd) {
+    return suffix.slice(0, firstLineEnd === -1 ? suffix.length : firstLineEnd);
+  }
+
+  const end = suffix.lastIndexOf('\n', maxChars);
+
+  const searchLimit = end - Math.floor(maxChars * BOUNDARY_SEARCH_RATIO);
+  let candidate = end;
+  while (candidate > searchLimit && candidate > firstLineEnd) {
+    if (isTopLevelLine(suffix, candidate + 1)) {
+      return suffix.slice(0, candidate);
+    }
+    candidate = suffix.lastIndexOf('\n', candidate - 1);
+  }
+
+  return suffix.slice(0, end);
+}
+
+// A line starting without indentation, which is not closing a block,
+// is likely the start of a top-level declaration or statement.
+function isTopLevelLine(text: string, lineStart: number): boolean {
+  const char = text.charAt(lineStart);
+  return char !== '' && !/[\s)\]}]/.test(char);
+}
@@ -0,0 +1,16 @@
+// Languages enabled by default: all of them except prose and commit messages.
+export const DEFAULT_ENABLED_LANGUAGES: Record<string, boolean> = {
+  '*': true,
+  plaintext: false,
+  markdown: false,
+  scminput: false,
+  'git-commit': false,
+};
+
+/**
+ * Whether completions are enabled for a language: its own entry of the
+ * enable map, or the `*` entry for languages without one.
+ */
+export function isLanguageEnabled(enable: Record<string, boolean>, languageId: string): boolean {
+  return enable[languageId] ?? enable['*'] ?? true;
+}
@@ -0,0 +1,58 @@
+import { FimMode } from "../types";
+
+export type FimTemplateID = Exclude<FimMode, 'chat' | 'suffix'>;
+
+export interface FimTemplate {
+  id: FimTemplateID
+  name: string
+  // Tokens the model may emit once the middle is filled, sent as stop sequences.
+  stop: string[]
+  prompt(prefix: string, suffix: string): string
+}
+
+export const fimTemplates: Record<FimTemplateID, FimTemplate> = {
+  starcoder: {
+    id: 'starcoder',
+    name: 'StarCoder',
+    stop: ['<fim_prefix>', '<fim_suffix>', '<fim_middle>', '<file_sep>', '<|endoftext|>'],
+    prompt: (prefix, suffix) => `<fim_prefix>${prefix}<fim_suffix>${suffix}<fim_middle>`,
+  },
+  codellama: {
+    id: 'codellama',
+    name: 'CodeLlama',
+    stop: ['<PRE>', '<SUF>', '<MID>', '<EOT>'],
+    prompt: (prefix, suffix) => `<PRE> ${prefix} <SUF>${suffix} <MID>`,
+  },
+  deepseek: {
+    id: 'deepseek',
+    name: 'DeepSeek Coder',
+    stop: ['<｜fim▁begin｜>', '<｜fim▁hole｜>', '<｜fim▁end｜>', '<｜end▁of▁sentence｜>', '<|EOT|>'],
+    prompt: (prefix, suffix) => `<｜fim▁begin｜>${prefix}<｜fim▁hole｜>${suffix}<｜fim▁end｜>`,
+  },
+  qwen: {
+    id: 'qwen',
+    name: 'Qwen2.5-Coder',
+    stop: ['<|fim_prefix|>', '<|fim_suffix|>', '<|fim_middle|>', '<|fim_pad|>', '<|file_sep|>', '<|repo_name|>', '<|endoftext|>', '<|im_start|>', '<|im_end|>'],
+    prompt: (prefix, suffix) => `<|fim_prefix|>${prefix}<|fim_suffix|>${suffix}<|fim_middle|>`,
+  },
+};
+
+/**
+ * Guess the FIM template matching a model ID, based on well-known model families.
+ */
+export function detectFimTemplate(modelId: string): FimTemplateID | undefined {
+  const id = modelId.toLowerCase();
+  if (id.includes('starcoder')) {
+    return 'starcoder';
+  }
+  if (id.includes('codellama') || id.includes('code-llama')) {
+    return 'codellama';
+  }
+  if (id.includes('deepseek-coder')) {
+    return 'deepseek';
+  }
+  if (id.includes('qwen') && id.includes('coder')) {
+    return 'qwen';
+  }
+  return undefined;
+}
@@ -1,4 +1,7 @@
 import { type AutoCompleteContext } from "./context";
+import { type FimTemplate } from "./fimTemplates";
+import { type PromptTemplate } from "../types";
+import { formatSnippets, prefixWithSnippets } from "./snippets";
 
 export interface HoleFiller {
   systemPrompt(): string
@@ -104,7 +107,72 @@ function hypothenuse(a, b) {
     if (ctx.language !== '') {
       context += `// Programming language: "${ctx.language}" \n`;
     }
+    context += formatSnippets(ctx.snippets, ctx.language);
 		return `${context}<QUERY>\n${ctx.textBeforeCursor}{{FILL_HERE}}${ctx.textAfterCursor}\n</QUERY>\nTASK: Fill the {{FILL_HERE}} hole. Answer only with the CORRECT completion, and NOTHING ELSE. Do it now.\n<COMPLETION>`;
 	}
 }
 
+// Plain instruction prompt, for chat models that don't follow the hole filler examples well.
+export class CompleteCodeHoleFiller implements HoleFiller {
+  systemPrompt(): string {
+    return `You are a code completion engine. You are given a file with a <CURSOR> marker.
+Reply ONLY with the code to insert at the cursor position, without explanations, markdown fences, or repeating the surrounding code.`;
+  }
+
+  userPrompt(ctx: AutoCompleteContext): string {
+    const language = ctx.language ? ` ${ctx.language}` : '';
+    const filename = ctx.filename ? ` from "${ctx.filename}"` : '';
+    const snippets = formatSnippets(ctx.snippets, ctx.language);
+    const related = snippets ? `Related code from other files:\n\n${snippets}\n` : '';
+    return `${related}Complete the following${language} code${filename}:\n\n${ctx.textBeforeCursor}<CURSOR>${ctx.textAfterCursor}`;
+  }
+}
+
+// Raw FIM token prompt sent as a single user message, for models served
+// behind a chat API that still understand their FIM tokens.
+export class FimTokensHoleFiller implements HoleFiller {
+  private template: FimTemplate;
+
+  constructor(template: FimTemplate) {
+    this.template = template;
+  }
+
+  systemPrompt(): string {
+    return '';
+  }
+
+  userPrompt(ctx: AutoCompleteContext): string {
+    return this.template.prompt(prefixWithSnippets(ctx), ctx.textAfterCursor);
+  }
+}
+
+// Hole filler built from a user-defined template of the tabcoder.promptTemplates setting.
+export class CustomHoleFiller implements HoleFiller {
+  private template: PromptTemplate;
+
+  constructor(template: PromptTemplate) {
+    this.template = template;
+  }
+
+  systemPrompt(): string {
+    return this.template.systemPrompt ?? '';
+  }
+
+  userPrompt(ctx: AutoCompleteContext): string {
+    return renderTemplate(this.template.userPrompt, ctx);
+  }
+}
+
+/**
+ * Replace the {{prefix}}, {{suffix}}, {{filename}}, {{language}} and {{snippets}} placeholders of a template.
+ */
+export function renderTemplate(template: string, ctx: AutoCompleteContext): string {
+  const values: Record<string, string> = {
+    prefix: ctx.textBeforeCursor,
+    suffix: ctx.textAfterCursor,
+    filename: ctx.filename ?? '',
+    language: ctx.language ?? '',
+    snippets: formatSnippets(ctx.snippets, ctx.language),
+  };
+  return template.replace(/\{\{\s*(prefix|suffix|filename|language|snippets)\s*\}\}/g, (_, name: string) => values[name]);
+}
@@ -0,0 +1,66 @@
+import { CompleteCodeHoleFiller, CustomHoleFiller, DefaultHoleFiller, FimTokensHoleFiller, HoleFiller } from "./holeFiller";
+import { fimTemplates } from "./fimTemplates";
+import { Profile, PromptTemplate } from "../types";
+import { logger } from "../utils/logger";
+
+export const DEFAULT_HOLE_FILLER_ID = 'hole-filler';
+
+/**
+ * Registry of the prompt shapes available to chat models.
+ *
+ * A hole filler is resolved for a profile in this order:
+ * 1. the template explicitly set on the profile (user-defined templates first),
+ * 2. the first user-defined template whose model ID pattern matches the profile model,
+ * 3. the default hole filler.
+ */
+export class HoleFillerRegistry {
+  private holeFillers: Map<string, HoleFiller> = new Map();
+
+  constructor() {
+    this.register(DEFAULT_HOLE_FILLER_ID, new DefaultHoleFiller());
+    this.register('complete-code', new CompleteCodeHoleFiller());
+    for (const template of Object.values(fimTemplates)) {
+      this.register(`fim-${template.id}`, new FimTokensHoleFiller(template));
+    }
+  }
+
+  public register(id: string, holeFiller: HoleFiller): void {
+    this.holeFillers.set(id, holeFiller);
+  }
+
+  public ids(): string[] {
+    return [...this.holeFillers.keys()];
+  }
+
+  public resolve(profile: Profile, customTemplates: PromptTemplate[] = []): HoleFiller {
+    if (profile.promptTemplate) {
+      const custom = customTemplates.find(t => t.id === profile.promptTemplate);
+      if (custom) {
+        return new CustomHoleFiller(custom);
+      }
+
+      const builtin = this.holeFillers.get(profile.promptTemplate);
+      if (builtin) {
+        return builtin;
+      }
+
+      logger.warn(`Unknown prompt template "${profile.promptTemplate}" for profile ${profile.name}, using default`);
+    }
+
+    const matching = customTemplates.find(t => t.modelIdPattern && matchesModelId(t.modelIdPattern, profile.modelId));
+    if (matching) {
+      return new CustomHoleFiller(matching);
+    }
+
+    return this.holeFillers.get(DEFAULT_HOLE_FILLER_ID)!;
+  }
+}
+
+function matchesModelId(pattern: string, modelId: string): boolean {
+  try {
+    return new RegExp(pattern, 'i').test(modelId);
+  } catch (error) {
+    logger.warn(`Invalid model ID pattern "${pattern}" in prompt templates:`, error);
+    return false;
+  }
+}
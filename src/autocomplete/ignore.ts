@@ -0,0 +1,132 @@
+type IgnoreRule = {
+  // Directory of the ignore file, relative to the workspace folder ('' for its root).
+  base: string;
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Rules of .gitignore style files. Paths are relative to the workspace folder
+ * and use forward slashes. As in git, the last matching rule wins, and a file
+ * is ignored when it or one of its parent directories is.
+ */
+export class IgnoreRules {
+  private rules: IgnoreRule[] = [];
+
+  /**
+   * Add the rules of an ignore file located in the base directory. Files
+   * should be added from the root down, deeper files taking precedence.
+   */
+  public add(content: string, base: string = ''): void {
+    for (const line of content.split(/\r?\n/)) {
+      const rule = parseRule(line, base.replace(/^\/+|\/+$/g, ''));
+      if (rule) {
+        this.rules.push(rule);
+      }
+    }
+  }
+
+  public isIgnored(path: string): boolean {
+    const segments = path.replace(/^\/+/, '').split('/');
+    let ignored = false;
+
+    for (const rule of this.rules) {
+      if (rule.base && !path.startsWith(`${rule.base}/`)) {
+        continue;
+      }
+      const baseDepth = rule.base ? rule.base.split('/').length : 0;
+      const relative = segments.slice(baseDepth);
+
+      // The file itself, then each of its parent directories.
+      const candidates = rule.directoryOnly
+        ? relative.slice(0, -1).map((_, i) => relative.slice(0, i + 1).join('/'))
+        : relative.map((_, i) => relative.slice(0, i + 1).join('/'));
+      if (candidates.some(candidate => rule.regex.test(candidate))) {
+        ignored = !rule.negated;
+      }
+    }
+
+    return ignored;
+  }
+
+  public get size(): number {
+    return this.rules.length;
+  }
+}
+
+function parseRule(line: string, base: string): IgnoreRule | undefined {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) {
+    return undefined;
+  }
+
+  const negated = pattern.startsWith('!');
+  if (negated) {
+    pattern = pattern.slice(1);
+  }
+  pattern = pattern.replace(/^\\([#!])/, '$1');
+
+  const directoryOnly = pattern.endsWith('/');
+  pattern = pattern.replace(/\/+$/, '');
+  if (!pattern) {
+    return undefined;
+  }
+
+  // Patterns with a slash are relative to the ignore file, others match at any depth.
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\/+/, '');
+
+  const source = globToRegExpSource(pattern);
+  return {
+    base,
+    regex: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+    negated,
+    directoryOnly,
+  };
+}
+
+/**
+ * Convert a gitignore glob to a regular expression source: `*` and `?` don't
+ * match slashes, `**` matches any number of directories.
+ */
+export function globToRegExpSource(glob: string): string {
+  let source = '';
+  let i = 0;
+
+  while (i < glob.length) {
+    if (glob.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 3;
+    } else if (glob.startsWith('/**', i) && i + 3 === glob.length) {
+      source += '/.*';
+      i += 3;
+    } else if (glob.startsWith('**', i)) {
+      source += '.*';
+      i += 2;
+    } else if (glob[i] === '*') {
+      source += '[^/]*';
+      i++;
+    } else if (glob[i] === '?') {
+      source += '[^/]';
+      i++;
+    } else if (glob[i] === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const end = glob.indexOf(']', i + 2);
+      const set = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      source += `[${set}]`;
+      i = end + 1;
+    } else if (glob[i] === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[i + 1]);
+      i += 2;
+    } else {
+      source += escapeRegExp(glob[i]);
+      i++;
+    }
+  }
+
+  return source;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -0,0 +1,90 @@
+export type ImportedIdentifier = {
+  name: string;
+  line: number;
+  character: number;
+}
+
+// Statements importing symbols in most languages.
+const IMPORT_STATEMENT = /^\s*(import|from|use|using|require|extern crate)\b/;
+
+const NON_SYMBOL_WORDS = new Set([
+  'import', 'from', 'as', 'type', 'typeof', 'use', 'using', 'require', 'extern', 'crate',
+  'static', 'export', 'package', 'self', 'super', 'const', 'let', 'var', 'default',
+]);
+
+// Only the beginning of files is scanned for imports.
+const MAX_SCANNED_LINES = 300;
+
+/**
+ * Find the identifiers imported by the import statements of a file,
+ * with their position so their definitions can be resolved.
+ */
+export function findImportedIdentifiers(lines: string[]): ImportedIdentifier[] {
+  const identifiers: ImportedIdentifier[] = [];
+  const seen = new Set<string>();
+  let inImportBlock = false;
+
+  for (let line = 0; line < Math.min(lines.length, MAX_SCANNED_LINES); line++) {
+    const text = lines[line];
+    const isImportStart = IMPORT_STATEMENT.test(text);
+    if (!isImportStart && !inImportBlock) {
+      continue;
+    }
+
+    // Module paths are strings in most languages, they don't name symbols.
+    const code = text
+      .replace(/(["'`])(?:\\.|(?!\1).)*\1/g, match => ' '.repeat(match.length))
+      .replace(/(\/\/|#).*$/, '');
+
+    for (const match of code.matchAll(/[A-Za-z_$][\w$]*/g)) {
+      const name = match[0];
+      if (NON_SYMBOL_WORDS.has(name) || seen.has(name)) {
+        continue;
+      }
+      seen.add(name);
+      identifiers.push({ name, line, character: match.index });
+    }
+
+    // Multi-line imports, e.g. `import {\n a,\n b\n} from "x"` or `from x import (\n a\n)`.
+    const opened = (code.match(/[{(]/g) ?? []).length;
+    const closed = (code.match(/[})]/g) ?? []).length;
+    if (isImportStart) {
+      inImportBlock = opened > closed;
+    } else if (closed > opened) {
+      inImportBlock = false;
+    }
+  }
+
+  return identifiers;
+}
+
+/**
+ * Keep the signature of a declaration, dropping its body: everything from the
+ * first opening brace, arrow, or trailing colon (Python) outside of parentheses.
+ * Declarations without a recognizable body are cut after a few lines.
+ */
+export function extractSignature(declaration: string, maxLines: number = 5): string {
+  const head = declaration.split('\n').slice(0, maxLines).join('\n');
+  let depth = 0;
+
+  for (let i = 0; i < head.length; i++) {
+    const char = head[i];
+    if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (depth <= 0) {
+      if (char === '{') {
+        return head.slice(0, i).trimEnd();
+      }
+      if (char === '=' && head[i + 1] === '>') {
+        return head.slice(0, i + 2).trimEnd();
+      }
+      if (char === ':' && /^[ \t]*(\n|$)/.test(head.slice(i + 1))) {
+        return head.slice(0, i + 1).trimEnd();
+      }
+    }
+  }
+
+  return head.trimEnd();
+}
@@ -0,0 +1,198 @@
+export type PostProcessingContext = {
+  textBeforeCursor: string;
+  textAfterCursor: string;
+}
+
+/**
+ * A post-processor cleans up a completion given the text around the cursor.
+ */
+export type PostProcessor = (completion: string, ctx: PostProcessingContext) => string;
+
+const OPENING_BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSING_BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+// Number of lines around the cursor scanned for brackets.
+const BRACKET_SCAN_LINES = 100;
+
+/**
+ * Remove the end of the completion when it repeats the text following the
+ * cursor: the rest of the current line, or the next lines. The end is kept
+ * when it closes brackets or strings opened by the completion itself.
+ */
+export const trimSuffixOverlap: PostProcessor = (completion, ctx) => {
+  const suffixLines = ctx.textAfterCursor.split('\n');
+  const restOfLine = suffixLines[0].trim();
+
+  if (restOfLine && completion.trimEnd().endsWith(restOfLine)) {
+    const trimmed = completion.trimEnd().slice(0, -restOfLine.length);
+    if (staysBalanced(completion, trimmed)) {
+      return trimmed;
+    }
+  }
+
+  // Longest run of trailing completion lines equal to the next non-blank lines.
+  const nextLines = suffixLines.slice(1).map(line => line.trim()).filter(line => line);
+  const lines = completion.split('\n');
+  let end = lines.length;
+  while (end > 0 && !lines[end - 1].trim()) {
+    end--;
+  }
+  for (let start = 1; start < end; start++) {
+    const tail = lines.slice(start, end).map(line => line.trim()).filter(line => line);
+    if (tail.length > 0 && tail.every((line, i) => line === nextLines[i])) {
+      const trimmed = lines.slice(0, start).join('\n').trimEnd();
+      if (staysBalanced(completion, trimmed)) {
+        return trimmed;
+      }
+    }
+  }
+
+  return completion;
+};
+
+/**
+ * Remove closing brackets of the completion which don't match an opening
+ * bracket, in the completion or before the cursor, that isn't already closed
+ * after the cursor.
+ */
+export const balanceBrackets: PostProcessor = (completion, ctx) => {
+  const before = ctx.textBeforeCursor.split('\n').slice(-BRACKET_SCAN_LINES).join('\n');
+  const after = ctx.textAfterCursor.split('\n').slice(0, BRACKET_SCAN_LINES).join('\n');
+
+  // Brackets closed after the cursor are not for the completion to close,
+  // the ones opened after them are.
+  const open = unmatchedBrackets(before).opening;
+  for (const closing of unmatchedBrackets(after).closing) {
+    const index = open.lastIndexOf(CLOSING_BRACKETS[closing]);
+    if (index === -1) {
+      break;
+    }
+    open.splice(index, 1);
+  }
+
+  const code = maskStrings(completion);
+  const stack: string[] = [];
+  const extra: number[] = [];
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+    if (OPENING_BRACKETS[char]) {
+      stack.push(char);
+    } else if (CLOSING_BRACKETS[char]) {
+      if (stack.length > 0) {
+        if (stack[stack.length - 1] === CLOSING_BRACKETS[char]) {
+          stack.pop();
+        }
+      } else if (open[open.length - 1] === CLOSING_BRACKETS[char]) {
+        open.pop();
+      } else {
+        extra.push(i);
+      }
+    }
+  }
+
+  if (extra.length === 0) {
+    return completion;
+  }
+  const removed = new Set(extra);
+  return completion.split('').filter((_, i) => !removed.has(i)).join('').trimEnd();
+};
+
+/**
+ * Align the completion with the cursor column: when the cursor is in the
+ * indentation of its line, the indentation repeated by the completion is
+ * removed, and lines written relative to column 0 are shifted to the cursor.
+ */
+export const fixIndentation: PostProcessor = (completion, ctx) => {
+  const linePrefix = ctx.textBeforeCursor.slice(ctx.textBeforeCursor.lastIndexOf('\n') + 1);
+  if (!linePrefix || linePrefix.trim()) {
+    return completion;
+  }
+
+  const [firstLine, ...otherLines] = completion.split('\n');
+  const firstIndentation = firstLine.match(/^\s*/)![0];
+  if (firstIndentation) {
+    return [firstLine.slice(firstIndentation.length), ...otherLines].join('\n');
+  }
+
+  const nonBlankLines = otherLines.filter(line => line.trim());
+  if (nonBlankLines.length > 0 && nonBlankLines.some(line => !/^\s/.test(line))) {
+    return [firstLine, ...otherLines.map(line => line.trim() ? linePrefix + line : line)].join('\n');
+  }
+
+  return completion;
+};
+
+/**
+ * Drop completions left empty or whitespace-only by the previous steps.
+ */
+export const dropEmpty: PostProcessor = (completion) => {
+  return completion.trim() ? completion : '';
+};
+
+export const defaultPostProcessors: PostProcessor[] = [
+  trimSuffixOverlap,
+  balanceBrackets,
+  fixIndentation,
+  dropEmpty,
+];
+
+/**
+ * Run the completion through the given post-processors, in order.
+ */
+export function postProcess(
+  completion: string,
+  ctx: PostProcessingContext,
+  processors: PostProcessor[] = defaultPostProcessors
+): string {
+  return processors.reduce((text, processor) => text ? processor(text, ctx) : text, completion);
+}
+
+/**
+ * Drop empty completions and duplicates differing only by trailing whitespace,
+ * keeping the first occurrence.
+ */
+export function uniqueCompletions(completions: string[]): string[] {
+  const seen = new Set<string>();
+  return completions.filter(completion => {
+    const key = completion.trimEnd();
+    if (!key.trim() || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+// Whether trimming the completion left no bracket nor string of its own open.
+function staysBalanced(completion: string, trimmed: string): boolean {
+  return unmatchedBrackets(trimmed).opening.length <= unmatchedBrackets(completion).opening.length &&
+    unterminatedStrings(trimmed) <= unterminatedStrings(completion);
+}
+
+// Quotes left once the terminated string literals are masked.
+function unterminatedStrings(text: string): number {
+  return (maskStrings(text).match(/["'`]/g) ?? []).length;
+}
+
+// Opening brackets left open and closing brackets without an opening one, in order.
+function unmatchedBrackets(text: string): { opening: string[]; closing: string[] } {
+  const opening: string[] = [];
+  const closing: string[] = [];
+  for (const char of maskStrings(text)) {
+    if (OPENING_BRACKETS[char]) {
+      opening.push(char);
+    } else if (CLOSING_BRACKETS[char]) {
+      if (opening.length === 0) {
+        closing.push(char);
+      } else if (opening[opening.length - 1] === CLOSING_BRACKETS[char]) {
+        opening.pop();
+      }
+    }
+  }
+  return { opening, closing };
+}
+
+// Brackets in string literals don't count, they are replaced by spaces keeping offsets.
+function maskStrings(text: string): string {
+  return text.replace(/(["'`])(?:\\.|(?!\1)[^\n])*\1/g, match => ' '.repeat(match.length));
+}
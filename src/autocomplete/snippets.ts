@@ -0,0 +1,131 @@
+import { type AutoCompleteContext, type CodeSnippet } from "./context";
+
+export type SnippetSource = {
+  filename: string;
+  content: string;
+}
+
+export type SnippetRankingOptions = {
+  maxSnippets: number;
+  // Number of lines of each window compared to the text around the cursor.
+  windowLines: number;
+}
+
+// Languages whose line comments don't start with "//".
+const lineCommentPrefixes: Record<string, string> = {
+  python: '#',
+  ruby: '#',
+  perl: '#',
+  r: '#',
+  shellscript: '#',
+  powershell: '#',
+  dockerfile: '#',
+  makefile: '#',
+  yaml: '#',
+  toml: '#',
+  elixir: '#',
+  coffeescript: '#',
+  julia: '#',
+  nim: '#',
+  sql: '--',
+  lua: '--',
+  haskell: '--',
+  elm: '--',
+  ada: '--',
+  latex: '%',
+  tex: '%',
+  erlang: '%',
+  matlab: '%',
+  clojure: ';',
+  lisp: ';',
+  scheme: ';',
+  ini: ';',
+  vb: "'",
+};
+
+export function lineCommentPrefix(language?: string): string {
+  return (language && lineCommentPrefixes[language]) || '//';
+}
+
+/**
+ * Split text into the set of identifiers and keywords it contains.
+ */
+export function tokenize(text: string): Set<string> {
+  return new Set(text.match(/[A-Za-z_$][\w$]*/g) ?? []);
+}
+
+export function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 0;
+  }
+  let intersection = 0;
+  for (const token of a) {
+    if (b.has(token)) {
+      intersection++;
+    }
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * Find the windows of the given sources most similar to the query text,
+ * keeping at most one window per source.
+ */
+export function rankSnippets(query: string, sources: SnippetSource[], options: SnippetRankingOptions): CodeSnippet[] {
+  const queryTokens = tokenize(query);
+  if (queryTokens.size === 0 || options.maxSnippets <= 0) {
+    return [];
+  }
+
+  const windowLines = Math.max(1, options.windowLines);
+  const step = Math.max(1, Math.floor(windowLines / 2));
+  const candidates: (CodeSnippet & { score: number })[] = [];
+
+  for (const source of sources) {
+    const lines = source.content.split('\n');
+    let best: { content: string; score: number } | undefined;
+
+    for (let start = 0; start < lines.length; start += step) {
+      const content = lines.slice(start, start + windowLines).join('\n');
+      const score = jaccardSimilarity(queryTokens, tokenize(content));
+      if (!best || score > best.score) {
+        best = { content, score };
+      }
+      if (start + windowLines >= lines.length) {
+        break;
+      }
+    }
+
+    if (best && best.score > 0) {
+      candidates.push({ filename: source.filename, ...best });
+    }
+  }
+
+  return candidates
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.maxSnippets)
+    .map(({ filename, content }) => ({ filename, content }));
+}
+
+/**
+ * Render snippets as commented-out file excerpts, to be placed before the code.
+ */
+export function formatSnippets(snippets: CodeSnippet[] | undefined, language?: string): string {
+  if (!snippets || snippets.length === 0) {
+    return '';
+  }
+
+  const comment = lineCommentPrefix(language);
+  return snippets.map(snippet => {
+    const lines = snippet.content.split('\n').map(line => `${comment} ${line}`.trimEnd());
+    return `${comment} Path: ${snippet.filename}\n${lines.join('\n')}\n`;
+  }).join('');
+}
+
+/**
+ * Text before the cursor preceded by the context snippets, for prompts
+ * which only consist of a prefix and a suffix.
+ */
+export function prefixWithSnippets(ctx: AutoCompleteContext): string {
+  return formatSnippets(ctx.snippets, ctx.language) + ctx.textBeforeCursor;
+}
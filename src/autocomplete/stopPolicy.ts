@@ -0,0 +1,134 @@
+export type StopPolicyContext = {
+  // Text of the current line before and after the cursor.
+  linePrefix: string;
+  lineSuffix: string;
+  // Allow multiline completions in the middle of a line.
+  multiline?: boolean;
+}
+
+/**
+ * A stop policy looks at the completion generated so far and returns the
+ * length it should be cut at, or undefined to keep it whole. `done` is false
+ * while the completion is still being streamed and its last line may be partial.
+ */
+export type StopPolicy = (completion: string, done: boolean) => number | undefined;
+
+export type StopResult = {
+  text: string;
+  stopped: boolean;
+}
+
+const TAB_WIDTH = 4;
+
+// Lines which only close brackets, e.g. `}`, `});` or `],`.
+const CLOSING_LINE = /^[)\]}]+[;,]?$/;
+
+// Lines which continue a block at its own level rather than ending it.
+const CONTINUATION_LINE = /^([)\]}]|(else|elif|except|finally|catch|case|default)\b)/;
+
+export function indentationWidth(line: string): number {
+  let width = 0;
+  for (const char of line) {
+    if (char === ' ') {
+      width++;
+    } else if (char === '\t') {
+      width += TAB_WIDTH;
+    } else {
+      break;
+    }
+  }
+  return width;
+}
+
+/**
+ * Stop at the end of the first line, used when the cursor is in the middle of a line.
+ */
+export const stopAtFirstLine: StopPolicy = (completion) => {
+  const index = completion.indexOf('\n');
+  return index === -1 ? undefined : index;
+};
+
+/**
+ * Stop when the indentation returns to the level of the block containing the
+ * cursor: lines indented less than the cursor line are dropped, and once the
+ * completion went deeper, a line back at the cursor level ends it, unless it
+ * only closes brackets (kept) or continues the block (`} else {`, `except:`...).
+ */
+export function stopAtBlockEnd(baseIndentation: number): StopPolicy {
+  return (completion, done) => {
+    const lines = completion.split('\n');
+    let offset = lines[0].length + 1;
+    let wentDeeper = false;
+
+    for (let i = 1; i < lines.length; i++) {
+      const line = lines[i];
+      const lineStart = offset;
+      offset += line.length + 1;
+
+      // Blank lines, and lines whose indentation may still be streaming, are not decisive.
+      const trimmed = line.trim();
+      if (!trimmed) {
+        continue;
+      }
+
+      const indentation = indentationWidth(line);
+      if (indentation > baseIndentation) {
+        wentDeeper = true;
+        continue;
+      }
+      if (indentation < baseIndentation) {
+        return trimmedLength(completion, lineStart);
+      }
+      if (!wentDeeper) {
+        continue;
+      }
+      // Wait for the end of the line, `}` may be followed by `);` and `e` by `lse`.
+      if (!done && i === lines.length - 1) {
+        return undefined;
+      }
+      if (CLOSING_LINE.test(trimmed)) {
+        return lineStart + line.length;
+      }
+      if (!CONTINUATION_LINE.test(trimmed)) {
+        return trimmedLength(completion, lineStart);
+      }
+    }
+
+    return undefined;
+  };
+}
+
+/**
+ * Stop policies for a completion at the given position: single line in the
+ * middle of a line (unless multiline is requested), up to the end of the
+ * current block otherwise.
+ */
+export function createStopPolicies(ctx: StopPolicyContext): StopPolicy[] {
+  if (ctx.lineSuffix.trim() && !ctx.multiline) {
+    return [stopAtFirstLine];
+  }
+  return [stopAtBlockEnd(indentationWidth(ctx.linePrefix))];
+}
+
+/**
+ * Cut the completion at the earliest stop of the given policies.
+ */
+export function applyStopPolicies(completion: string, policies: StopPolicy[], done: boolean = true): StopResult {
+  let stop: number | undefined;
+  for (const policy of policies) {
+    const index = policy(completion, done);
+    if (index !== undefined && (stop === undefined || index < stop)) {
+      stop = index;
+    }
+  }
+
+  if (stop === undefined) {
+    return { text: completion, stopped: false };
+  }
+  return { text: completion.slice(0, stop), stopped: true };
+}
+
+// Length of the text before the given index, without the blank lines preceding it.
+function trimmedLength(completion: string, index: number): number {
+  return completion.slice(0, index).trimEnd().length;
+}
@@ -0,0 +1,69 @@
+import { LanguageTriggerSettings, TriggerSettings } from "../types";
+
+// Number of recent completions whose outcome adapts the debounce delay.
+const OUTCOME_HISTORY = 10;
+
+// Weight of the last request in the average provider latency.
+const LATENCY_SMOOTHING = 0.3;
+
+// Providers answering faster than this get a shorter debounce delay.
+const FAST_LATENCY_MS = 500;
+
+/**
+ * Trigger settings for a language: the language overrides applied over the defaults.
+ */
+export function resolveTriggerSettings(settings: TriggerSettings, languageId: string): LanguageTriggerSettings {
+  const { languageOverrides, ...defaults } = settings;
+  return { ...defaults, ...languageOverrides[languageId] };
+}
+
+/**
+ * Adapts the debounce delay to the user and the provider: the delay lengthens
+ * (up to twice the configured one) when recent completions were rejected, and
+ * shortens (down to half of it) when the provider answers fast.
+ */
+export class TriggerPolicy {
+  // true for accepted completions, false for rejected ones, oldest first.
+  private outcomes: boolean[] = [];
+  private averageLatencyMs: number | undefined;
+
+  public recordAccepted(): void {
+    this.recordOutcome(true);
+  }
+
+  // A completion is rejected when it was shown but a new one is requested instead of accepting it.
+  public recordRejected(): void {
+    this.recordOutcome(false);
+  }
+
+  public recordLatency(latencyMs: number): void {
+    this.averageLatencyMs = this.averageLatencyMs === undefined
+      ? latencyMs
+      : this.averageLatencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+  }
+
+  public debounceDelay(settings: LanguageTriggerSettings): number {
+    if (!settings.adaptiveDebounce || (this.outcomes.length === 0 && this.averageLatencyMs === undefined)) {
+      return settings.debounceMs;
+    }
+
+    const rejectionRate = this.outcomes.length > 0
+      ? this.outcomes.filter(accepted => !accepted).length / this.outcomes.length
+      : 0;
+    const speedFactor = this.averageLatencyMs !== undefined
+      ? Math.min(1, 0.5 + this.averageLatencyMs / (2 * FAST_LATENCY_MS))
+      : 1;
+
+    const delay = settings.debounceMs * (1 + rejectionRate) * speedFactor;
+    return Math.round(Math.min(settings.debounceMs * 2, Math.max(settings.debounceMs / 2, delay)));
+  }
+
+  public reset(): void {
+    this.outcomes = [];
+    this.averageLatencyMs = undefined;
+  }
+
+  private recordOutcome(accepted: boolean): void {
+    this.outcomes = [...this.outcomes, accepted].slice(-OUTCOME_HISTORY);
+  }
+}
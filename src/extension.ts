@@ -1,10 +1,16 @@
 import * as vscode from 'vscode';
-import { TabCoderInlineCompletionProvider } from './vscode/completionProvider';
+import { ManualTriggerOptions, TabCoderInlineCompletionProvider } from './vscode/completionProvider';
 import { ConfigurationProvider } from './vscode/configProvider';
 import { TabCoderStatusBarProvider } from './vscode/statusBarProvider';
 import { ProfileCommandProvider } from './vscode/profileCommandProvider';
 import { logger } from './utils/logger';
 import { ProfileService } from './services/profileService';
+import { HoleFillerRegistry } from './autocomplete/holeFillerRegistry';
+import { CrossFileContextProvider } from './vscode/crossFileContextProvider';
+import { ImportDefinitionProvider } from './vscode/importDefinitionProvider';
+import { EnablementProvider } from './vscode/enablementProvider';
+import { IgnoreProvider } from './vscode/ignoreProvider';
+import { ProfileHealthMonitor } from './vscode/profileHealthMonitor';
 
 export function activate(context: vscode.ExtensionContext) {
 	// Initialize ConfigurationProvider with context for secure storage.
@@ -12,8 +18,19 @@ export function activate(context: vscode.ExtensionContext) {
 
 	const profileService = new ProfileService(context, configurationProvider);
 
+	// Load the .tabcoderignore and .gitignore files.
+	const ignoreProvider = new IgnoreProvider(configurationProvider);
+	context.subscriptions.push(ignoreProvider);
+
+	// Languages and files where completions are enabled.
+	const enablementProvider = new EnablementProvider(configurationProvider, ignoreProvider);
+
+	// Test the active profile in the background.
+	const healthMonitor = new ProfileHealthMonitor(profileService, configurationProvider);
+	context.subscriptions.push(healthMonitor);
+
 	// Create and register the status bar provider.
-	const statusBarProvider = new TabCoderStatusBarProvider(profileService);
+	const statusBarProvider = new TabCoderStatusBarProvider(profileService, enablementProvider, healthMonitor);
 	context.subscriptions.push(statusBarProvider);
 
 	logger.info("Registered status bar provider");
@@ -23,8 +40,35 @@ export function activate(context: vscode.ExtensionContext) {
 		vscode.commands.registerCommand('tabcoder.statusBarClicked', () => statusBarProvider.handleStatusBarClick())
 	);
 
+	// Register command to enable or disable completions for the language of the active editor.
+	context.subscriptions.push(
+		vscode.commands.registerCommand('tabcoder.toggleLanguage', () => {
+			const languageId = vscode.window.activeTextEditor?.document.languageId;
+			if (languageId) {
+				return enablementProvider.toggleLanguage(languageId);
+			}
+		})
+	);
+
+	// Track open and recently edited files used as cross-file context.
+	const crossFileContextProvider = new CrossFileContextProvider(enablementProvider);
+	context.subscriptions.push(crossFileContextProvider);
+
+	// Resolve the definitions of imported symbols used as context.
+	const importDefinitionProvider = new ImportDefinitionProvider(enablementProvider);
+	context.subscriptions.push(importDefinitionProvider);
+
 	// Register the inline completion provider for all languages.
-	const inlineCompletionProvider = new TabCoderInlineCompletionProvider(profileService, statusBarProvider);
+	const inlineCompletionProvider = new TabCoderInlineCompletionProvider(
+		profileService,
+		statusBarProvider,
+		configurationProvider,
+		new HoleFillerRegistry(),
+		crossFileContextProvider,
+		importDefinitionProvider,
+		enablementProvider,
+		healthMonitor
+	);
 	context.subscriptions.push(
 		vscode.languages.registerInlineCompletionItemProvider(
 			'*', // Register for all languages
@@ -39,14 +83,25 @@ export function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
+	// Register command to request a completion now, see ManualTriggerOptions for its arguments.
+	context.subscriptions.push(
+		vscode.commands.registerCommand('tabcoder.triggerCompletion', (options?: ManualTriggerOptions) => {
+			return inlineCompletionProvider.triggerCompletion(options);
+		})
+	);
+
 	logger.info("Registered inline completion provider");
 
 	// Register profile management commands.
 	const profileCommandProvider = new ProfileCommandProvider(profileService);
 	context.subscriptions.push(
 		vscode.commands.registerCommand('tabcoder.createProfile', () => profileCommandProvider.createProfile()),
+		vscode.commands.registerCommand('tabcoder.editProfile', () => profileCommandProvider.editProfile()),
+		vscode.commands.registerCommand('tabcoder.testProfile', () => profileCommandProvider.testProfile()),
 		vscode.commands.registerCommand('tabcoder.setActiveProfile', () => profileCommandProvider.setActiveProfile()),
-		vscode.commands.registerCommand('tabcoder.removeProfile', () => profileCommandProvider.removeProfile())
+		vscode.commands.registerCommand('tabcoder.removeProfile', () => profileCommandProvider.removeProfile()),
+		vscode.commands.registerCommand('tabcoder.exportProfiles', () => profileCommandProvider.exportProfiles()),
+		vscode.commands.registerCommand('tabcoder.importProfiles', () => profileCommandProvider.importProfiles())
 	);
 
 	logger.info("Registered commands");
@@ -0,0 +1,87 @@
+import { expect } from 'chai';
+import { ProfileWithAPIKey, ProviderConnection } from '../../types/profile';
+import { AnthropicProvider } from '../anthropic';
+import * as sinon from 'sinon';
+
+suite('AnthropicProvider', () => {
+    let sandbox: sinon.SinonSandbox;
+    let provider: AnthropicProvider;
+
+    const mockConnection: ProviderConnection = {
+        id: 'anthropic',
+        baseURL: 'https://api.anthropic.com/v1',
+        apiKey: 'test-api-key'
+    };
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        provider = new AnthropicProvider();
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    test('languageModel() should return a language model with correct configuration', () => {
+        const mockProfile: ProfileWithAPIKey = {
+            id: 'test-profile',
+            name: 'Test Profile',
+            provider: 'anthropic',
+            baseURL: 'https://api.anthropic.com/v1',
+            modelId: 'claude-3-5-haiku-latest',
+            apiKey: 'test-api-key'
+        };
+
+        const languageModel = provider.languageModel(mockProfile);
+
+        expect(languageModel).to.be.an('object');
+        expect(languageModel.modelId).to.equal('claude-3-5-haiku-latest');
+    });
+
+    suite('listModels', () => {
+        let fetchStub: sinon.SinonStub;
+
+        setup(() => {
+            fetchStub = sandbox.stub(global, 'fetch');
+        });
+
+        test('listModels should return models on successful API response', async () => {
+            fetchStub.resolves({
+                ok: true,
+                status: 200,
+                json: async () => ({
+                    data: [
+                        { id: 'claude-sonnet-4-20250514', display_name: 'Claude Sonnet 4', created_at: '2025-05-22T00:00:00Z' },
+                        { id: 'claude-3-5-haiku-20241022', display_name: 'Claude Haiku 3.5', created_at: '2024-10-22T00:00:00Z' }
+                    ]
+                })
+            });
+
+            const result = await provider.listModels(mockConnection);
+
+            expect(fetchStub.firstCall.args[0]).to.equal('https://api.anthropic.com/v1/models?limit=1000');
+            expect(fetchStub.firstCall.args[1]).to.deep.include({
+                method: 'GET',
+                headers: {
+                    'x-api-key': 'test-api-key',
+                    'anthropic-version': '2023-06-01'
+                }
+            });
+            expect(result).to.deep.equal([
+                { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4' },
+                { id: 'claude-3-5-haiku-20241022', name: 'Claude Haiku 3.5' }
+            ]);
+        });
+
+        test('listModels should return empty array on HTTP error', async () => {
+            fetchStub.resolves({
+                ok: false,
+                status: 401
+            });
+
+            const result = await provider.listModels(mockConnection);
+
+            expect(result).to.deep.equal([]);
+        });
+    });
+});
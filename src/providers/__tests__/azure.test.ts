@@ -0,0 +1,127 @@
+import { expect } from 'chai';
+import { generateText } from 'ai';
+import { ProfileWithAPIKey, ProviderConnection } from '../../types/profile';
+import { AzureOpenAIProvider } from '../azure';
+import * as sinon from 'sinon';
+
+suite('AzureOpenAIProvider', () => {
+    let sandbox: sinon.SinonSandbox;
+    let provider: AzureOpenAIProvider;
+
+    const mockProfile: ProfileWithAPIKey = {
+        id: 'test-profile',
+        name: 'Test Profile',
+        provider: 'azure',
+        baseURL: 'https://my-resource.openai.azure.com/openai',
+        modelId: 'gpt-4o-mini',
+        apiKey: 'test-api-key'
+    };
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        provider = new AzureOpenAIProvider();
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    test('languageModel() should use the deployment as model', () => {
+        const languageModel = provider.languageModel(mockProfile);
+
+        expect(languageModel).to.be.an('object');
+        expect(languageModel.modelId).to.equal('gpt-4o-mini');
+    });
+
+    suite('requests', () => {
+        let fetchStub: sinon.SinonStub;
+
+        setup(() => {
+            fetchStub = sandbox.stub(global, 'fetch').resolves(new Response(JSON.stringify({
+                id: 'chatcmpl-1',
+                created: 0,
+                model: 'gpt-4o-mini',
+                choices: [{ index: 0, message: { role: 'assistant', content: 'a + b' }, finish_reason: 'stop' }]
+            }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        });
+
+        test('should call the deployment with the API version and key', async () => {
+            const result = await generateText({
+                model: provider.languageModel({ ...mockProfile, apiVersion: '2025-01-01-preview' }),
+                prompt: 'Complete the code',
+                maxRetries: 0,
+            });
+
+            expect(result.text).to.equal('a + b');
+            expect(fetchStub.firstCall.args[0]).to.equal(
+                'https://my-resource.openai.azure.com/openai/deployments/gpt-4o-mini/chat/completions?api-version=2025-01-01-preview'
+            );
+            expect(fetchStub.firstCall.args[1].headers).to.include({ 'api-key': 'test-api-key' });
+        });
+
+        test('should default to the latest GA API version', async () => {
+            await generateText({ model: provider.languageModel(mockProfile), prompt: 'Complete the code', maxRetries: 0 });
+
+            expect(fetchStub.firstCall.args[0]).to.include('api-version=2024-10-21');
+        });
+
+        test('should add headers and extra body fields of the profile', async () => {
+            await generateText({
+                model: provider.languageModel({
+                    ...mockProfile,
+                    generation: { headers: { 'X-Team': 'platform' }, extraBody: { seed: 42, model: 'ignored' } }
+                }),
+                prompt: 'Complete the code',
+                maxRetries: 0,
+            });
+
+            const init = fetchStub.firstCall.args[1];
+            expect(init.headers).to.include({ 'X-Team': 'platform' });
+            expect(JSON.parse(init.body)).to.include({ seed: 42, model: 'gpt-4o-mini' });
+        });
+    });
+
+    suite('listModels', () => {
+        let fetchStub: sinon.SinonStub;
+
+        const mockConnection: ProviderConnection = {
+            id: 'azure',
+            baseURL: 'https://my-resource.openai.azure.com/openai',
+            apiKey: 'test-api-key'
+        };
+
+        setup(() => {
+            fetchStub = sandbox.stub(global, 'fetch');
+        });
+
+        test('listModels should return the deployments', async () => {
+            fetchStub.resolves({
+                ok: true,
+                status: 200,
+                json: async () => ({
+                    data: [{ id: 'gpt-4o-mini', model: 'gpt-4o-mini' }, { id: 'completions', model: 'gpt-4o' }]
+                })
+            });
+
+            const result = await provider.listModels(mockConnection);
+
+            expect(fetchStub.firstCall.args[0]).to.equal('https://my-resource.openai.azure.com/openai/deployments?api-version=2022-12-01');
+            expect(fetchStub.firstCall.args[1]).to.deep.include({
+                method: 'GET',
+                headers: { 'api-key': 'test-api-key' }
+            });
+            expect(result).to.deep.equal([
+                { id: 'gpt-4o-mini', name: 'gpt-4o-mini' },
+                { id: 'completions', name: 'completions' }
+            ]);
+        });
+
+        test('listModels should return empty array on HTTP error', async () => {
+            fetchStub.resolves({ ok: false, status: 404 });
+
+            const result = await provider.listModels(mockConnection);
+
+            expect(result).to.deep.equal([]);
+        });
+    });
+});
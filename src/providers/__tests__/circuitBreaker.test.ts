@@ -0,0 +1,88 @@
+import { expect } from 'chai';
+import { CircuitBreaker } from '../circuitBreaker';
+
+suite('CircuitBreaker', () => {
+    const settings = { failureThreshold: 3, cooldownMs: 60000 };
+    let now: number;
+    let breaker: CircuitBreaker;
+
+    setup(() => {
+        now = 0;
+        breaker = new CircuitBreaker(() => now);
+    });
+
+    test('should keep profiles available below the failure threshold', () => {
+        breaker.recordFailure('groq', settings);
+        breaker.recordFailure('groq', settings);
+
+        expect(breaker.isAvailable('groq', settings)).to.be.true;
+    });
+
+    test('should skip profiles during the cool-down after consecutive failures', () => {
+        for (let i = 0; i < 3; i++) {
+            breaker.recordFailure('groq', settings);
+        }
+
+        expect(breaker.isAvailable('groq', settings)).to.be.false;
+        now = 59999;
+        expect(breaker.isAvailable('groq', settings)).to.be.false;
+    });
+
+    test('should probe profiles again after the cool-down', () => {
+        for (let i = 0; i < 3; i++) {
+            breaker.recordFailure('groq', settings);
+        }
+        now = 60000;
+
+        expect(breaker.isAvailable('groq', settings)).to.be.true;
+
+        // A failed probe reopens the circuit right away.
+        breaker.recordFailure('groq', settings);
+        expect(breaker.isAvailable('groq', settings)).to.be.false;
+    });
+
+    test('should reset the failures of profiles succeeding', () => {
+        breaker.recordFailure('groq', settings);
+        breaker.recordFailure('groq', settings);
+        breaker.recordSuccess('groq');
+        breaker.recordFailure('groq', settings);
+
+        expect(breaker.isAvailable('groq', settings)).to.be.true;
+    });
+
+    test('should suspend rate limited profiles until the given time', () => {
+        breaker.suspend('groq', 20000);
+
+        expect(breaker.isAvailable('groq', settings)).to.be.false;
+        expect(breaker.suspendedUntil('groq')).to.equal(20000);
+        now = 20000;
+        expect(breaker.isAvailable('groq', settings)).to.be.true;
+        expect(breaker.suspendedUntil('groq')).to.be.undefined;
+    });
+
+    test('should never select suspended profiles', () => {
+        breaker.suspend('groq', 20000);
+        for (let i = 0; i < 3; i++) {
+            breaker.recordFailure('ollama', settings);
+        }
+
+        expect(breaker.select(['groq', 'ollama'], settings)).to.deep.equal(['ollama']);
+    });
+
+    test('should select the available profiles in order', () => {
+        for (let i = 0; i < 3; i++) {
+            breaker.recordFailure('groq', settings);
+        }
+
+        expect(breaker.select(['groq', 'openrouter', 'ollama'], settings)).to.deep.equal(['openrouter', 'ollama']);
+    });
+
+    test('should select all profiles when none is available', () => {
+        for (let i = 0; i < 3; i++) {
+            breaker.recordFailure('groq', settings);
+            breaker.recordFailure('ollama', settings);
+        }
+
+        expect(breaker.select(['groq', 'ollama'], settings)).to.deep.equal(['groq', 'ollama']);
+    });
+});
@@ -0,0 +1,143 @@
+import { expect } from 'chai';
+import { APICallError } from '@ai-sdk/provider';
+import { ProfileWithAPIKey } from '../../types/profile';
+import { CodestralProvider } from '../codestral';
+import * as sinon from 'sinon';
+
+suite('CodestralProvider', () => {
+    let sandbox: sinon.SinonSandbox;
+    let provider: CodestralProvider;
+
+    const mockProfile: ProfileWithAPIKey = {
+        id: 'test-profile',
+        name: 'Test Profile',
+        provider: 'mistral-codestral',
+        baseURL: 'https://codestral.mistral.ai/v1',
+        modelId: 'codestral-latest',
+        apiKey: 'test-api-key'
+    };
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        provider = new CodestralProvider();
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    test('languageModel() should return a language model with correct configuration', () => {
+        const languageModel = provider.languageModel(mockProfile);
+
+        expect(languageModel).to.be.an('object');
+        expect(languageModel.modelId).to.equal('codestral-latest');
+    });
+
+    test('fimModel() should return a FIM model for the profile model', () => {
+        const fimModel = provider.fimModel(mockProfile);
+
+        expect(fimModel.modelId).to.equal('codestral-latest');
+    });
+
+    suite('fimModel().complete', () => {
+        let fetchStub: sinon.SinonStub;
+
+        setup(() => {
+            fetchStub = sandbox.stub(global, 'fetch');
+        });
+
+        test('complete should call the FIM endpoint with prompt and suffix', async () => {
+            fetchStub.resolves({
+                ok: true,
+                status: 200,
+                json: async () => ({
+                    choices: [{ message: { role: 'assistant', content: 'a + b' } }],
+                    usage: { prompt_tokens: 12, completion_tokens: 3 }
+                })
+            });
+
+            const result = await provider.fimModel(mockProfile).complete({
+                prefix: 'function add(a, b) {\n  return ',
+                suffix: ';\n}'
+            });
+
+            expect(fetchStub.calledOnce).to.be.true;
+            expect(fetchStub.firstCall.args[0]).to.equal('https://codestral.mistral.ai/v1/fim/completions');
+            expect(fetchStub.firstCall.args[1]).to.deep.include({
+                method: 'POST',
+                headers: {
+                    'Authorization': 'Bearer test-api-key',
+                    'Content-Type': 'application/json'
+                }
+            });
+            expect(JSON.parse(fetchStub.firstCall.args[1].body)).to.deep.equal({
+                model: 'codestral-latest',
+                prompt: 'function add(a, b) {\n  return ',
+                suffix: ';\n}',
+                stream: false
+            });
+
+            expect(result.text).to.equal('a + b');
+            expect(result.usage).to.deep.equal({ inputTokens: 12, outputTokens: 3 });
+        });
+
+        test('complete should send the generation parameters of the profile', async () => {
+            fetchStub.resolves({
+                ok: true,
+                status: 200,
+                json: async () => ({ choices: [{ message: { role: 'assistant', content: 'a + b' } }] })
+            });
+
+            await provider.fimModel({
+                ...mockProfile,
+                generation: { headers: { 'X-Team': 'platform' }, extraBody: { random_seed: 42 } }
+            }).complete({
+                prefix: 'return ',
+                suffix: ';',
+                temperature: 0.2,
+                maxOutputTokens: 64,
+                stopSequences: ['\n\n']
+            });
+
+            expect(fetchStub.firstCall.args[1].headers).to.include({ 'X-Team': 'platform', 'Authorization': 'Bearer test-api-key' });
+            expect(JSON.parse(fetchStub.firstCall.args[1].body)).to.deep.equal({
+                random_seed: 42,
+                model: 'codestral-latest',
+                prompt: 'return ',
+                suffix: ';',
+                stream: false,
+                temperature: 0.2,
+                max_tokens: 64,
+                stop: ['\n\n']
+            });
+        });
+
+        test('complete should return empty text when response has no choices', async () => {
+            fetchStub.resolves({
+                ok: true,
+                status: 200,
+                json: async () => ({ choices: [] })
+            });
+
+            const result = await provider.fimModel(mockProfile).complete({ prefix: '', suffix: '' });
+
+            expect(result.text).to.equal('');
+        });
+
+        test('complete should throw an APICallError on HTTP errors', async () => {
+            fetchStub.resolves({
+                ok: false,
+                status: 401,
+                text: async () => 'Unauthorized'
+            });
+
+            try {
+                await provider.fimModel(mockProfile).complete({ prefix: '', suffix: '' });
+                expect.fail('complete should have thrown');
+            } catch (error) {
+                expect(APICallError.isInstance(error)).to.be.true;
+                expect((error as APICallError).statusCode).to.equal(401);
+            }
+        });
+    });
+});
@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { ProfileWithAPIKey } from '../../types';
+import { testConnection } from '../connectionTest';
+
+suite('connectionTest', () => {
+    let sandbox: sinon.SinonSandbox;
+    let fetchStub: sinon.SinonStub;
+
+    const profile: ProfileWithAPIKey = {
+        id: 'test-profile',
+        name: 'Test Profile',
+        provider: 'mistral-codestral',
+        baseURL: 'https://codestral.mistral.ai/v1',
+        modelId: 'codestral-latest',
+        apiKey: 'test-api-key'
+    };
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        fetchStub = sandbox.stub(global, 'fetch');
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    test('should report the latency of working profiles', async () => {
+        fetchStub.resolves({
+            ok: true,
+            status: 200,
+            json: async () => ({ choices: [{ message: { content: 'a + b' } }] })
+        });
+
+        const result = await testConnection(profile);
+
+        expect(result.ok).to.be.true;
+        expect(result.latencyMs).to.be.a('number');
+        expect(JSON.parse(fetchStub.firstCall.args[1].body).max_tokens).to.equal(8);
+    });
+
+    test('should report authentication errors', async () => {
+        fetchStub.resolves({ ok: false, status: 401, text: async () => 'Unauthorized' });
+
+        const result = await testConnection(profile);
+
+        expect(result.ok).to.be.false;
+        expect(!result.ok && result.error.kind).to.equal('auth');
+    });
+
+    test('should report timeouts', async () => {
+        fetchStub.callsFake((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+            init.signal!.addEventListener('abort', () => {
+                const error = new Error('aborted');
+                error.name = 'AbortError';
+                reject(error);
+            });
+        }));
+
+        const result = await testConnection(profile, 10);
+
+        expect(!result.ok && result.error.kind).to.equal('timeout');
+    });
+});
@@ -0,0 +1,80 @@
+import { expect } from 'chai';
+import { classifyProviderError, describeProviderError, parseRetryAfter } from '../errors';
+import { apiCallError } from './helpers';
+
+suite('errors', () => {
+    suite('classifyProviderError', () => {
+        test('should classify authentication errors', () => {
+            expect(classifyProviderError(apiCallError(401)).kind).to.equal('auth');
+            expect(classifyProviderError(apiCallError(403)).kind).to.equal('auth');
+        });
+
+        test('should classify unknown models', () => {
+            expect(classifyProviderError(apiCallError(404)).kind).to.equal('model-not-found');
+            expect(classifyProviderError(apiCallError(400, '{"error": "The model `gpt-5o` does not exist"}')).kind).to.equal('model-not-found');
+            expect(classifyProviderError(apiCallError(400, '{"error": "Invalid prompt"}')).kind).to.equal('unknown');
+        });
+
+        test('should classify rate limiting and server errors', () => {
+            expect(classifyProviderError(apiCallError(429)).kind).to.equal('rate-limit');
+            const serverError = classifyProviderError(apiCallError(502));
+            expect(serverError).to.include({ kind: 'server', statusCode: 502 });
+            expect(describeProviderError(serverError)).to.include('502');
+        });
+
+        test('should keep the delay requested by rate limits', () => {
+            const error = classifyProviderError(apiCallError(429, undefined, { 'retry-after': '20' }));
+
+            expect(error).to.include({ kind: 'rate-limit', retryAfterMs: 20000 });
+            expect(describeProviderError(error)).to.include('20 s');
+        });
+
+        test('should inspect the causes and the last error of retries', () => {
+            const retryError = Object.assign(new Error('Failed after 3 attempts'), { lastError: apiCallError(429) });
+            const ollamaError = new Error('model "qwen" not found', {
+                cause: Object.assign(new Error('model "qwen" not found'), { status_code: 404 })
+            });
+
+            expect(classifyProviderError(retryError).kind).to.equal('rate-limit');
+            expect(classifyProviderError(ollamaError).kind).to.equal('model-not-found');
+        });
+
+        test('should classify connection errors', () => {
+            const error = new TypeError('fetch failed', { cause: Object.assign(new Error('connect'), { code: 'ECONNREFUSED' }) });
+
+            expect(classifyProviderError(error).kind).to.equal('network');
+        });
+
+        test('should classify aborted requests as timeouts', () => {
+            const error = new Error('aborted');
+            error.name = 'AbortError';
+
+            expect(classifyProviderError(error).kind).to.equal('timeout');
+        });
+
+        test('should keep the message of other errors', () => {
+            expect(classifyProviderError(new Error('Unexpected token'))).to.deep.equal({ kind: 'unknown', message: 'Unexpected token' });
+        });
+    });
+
+    suite('parseRetryAfter', () => {
+        test('should parse delays in seconds', () => {
+            expect(parseRetryAfter({ 'Retry-After': '30' })).to.equal(30000);
+        });
+
+        test('should parse HTTP dates', () => {
+            const now = Date.parse('Mon, 19 Oct 2026 10:00:00 GMT');
+
+            expect(parseRetryAfter({ 'retry-after': 'Mon, 19 Oct 2026 10:00:45 GMT' }, now)).to.equal(45000);
+        });
+
+        test('should prefer delays in milliseconds', () => {
+            expect(parseRetryAfter({ 'retry-after-ms': '1500', 'retry-after': '2' })).to.equal(1500);
+        });
+
+        test('should ignore missing and invalid headers', () => {
+            expect(parseRetryAfter(undefined)).to.be.undefined;
+            expect(parseRetryAfter({ 'retry-after': 'soon' })).to.be.undefined;
+        });
+    });
+});
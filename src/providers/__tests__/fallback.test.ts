@@ -0,0 +1,85 @@
+import { expect } from 'chai';
+import { CircuitBreaker } from '../circuitBreaker';
+import { callWithFallback, FallbackOptions } from '../fallback';
+import { RequestCancelledError } from '../retry';
+import { apiCallError } from './helpers';
+
+type TestProfile = { id: string };
+
+suite('fallback', () => {
+    const settings = { failureThreshold: 1, cooldownMs: 60000 };
+    const profiles = [{ id: 'groq' }, { id: 'ollama' }];
+    let breaker: CircuitBreaker;
+    let events: string[];
+    let options: FallbackOptions<TestProfile>;
+
+    setup(() => {
+        breaker = new CircuitBreaker(() => 0);
+        events = [];
+        options = {
+            circuitBreaker: breaker,
+            settings,
+            isStillValid: () => true,
+            onSuccess: profile => events.push(`success ${profile.id}`),
+            onFailure: (profile, _error, providerError) => events.push(`failure ${profile.id} ${providerError.kind}`),
+            onFallback: (profile, nextProfile) => events.push(`fallback ${profile.id} ${nextProfile.id}`),
+        };
+    });
+
+    test('should return the result of the first profile', async () => {
+        const result = await callWithFallback(profiles, async profile => profile.id, options);
+
+        expect(result).to.equal('groq');
+        expect(events).to.deep.equal(['success groq']);
+    });
+
+    test('should fall back to the next profile on failures', async () => {
+        const result = await callWithFallback(profiles, async profile => {
+            if (profile.id === 'groq') {
+                throw apiCallError(503);
+            }
+            return profile.id;
+        }, options);
+
+        expect(result).to.equal('ollama');
+        expect(events).to.deep.equal(['failure groq server', 'fallback groq ollama', 'success ollama']);
+        expect(breaker.isAvailable('groq', settings)).to.be.false;
+    });
+
+    test('should suspend rate limited profiles', async () => {
+        await callWithFallback(profiles, async profile => {
+            if (profile.id === 'groq') {
+                throw apiCallError(429);
+            }
+            return profile.id;
+        }, options);
+
+        expect(breaker.isSuspended('groq')).to.be.true;
+    });
+
+    test('should not fall back once the request is no longer valid', async () => {
+        const error = apiCallError(503);
+
+        try {
+            await callWithFallback(profiles, async () => { throw error; }, { ...options, isStillValid: () => false });
+            expect.fail('should have thrown');
+        } catch (thrown) {
+            expect(thrown).to.equal(error);
+        }
+        expect(events).to.deep.equal(['failure groq server']);
+    });
+
+    test('should record nothing for cancelled requests', async () => {
+        const error = new RequestCancelledError();
+
+        try {
+            await callWithFallback(profiles, async () => { throw error; }, options);
+            expect.fail('should have thrown');
+        } catch (thrown) {
+            expect(thrown).to.equal(error);
+        }
+        expect(events).to.be.empty;
+        expect(breaker.isAvailable('groq', settings)).to.be.true;
+        expect(breaker.isAvailable('ollama', settings)).to.be.true;
+    });
+});
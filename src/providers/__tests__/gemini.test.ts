@@ -0,0 +1,80 @@
+import { expect } from 'chai';
+import { ProfileWithAPIKey, ProviderConnection } from '../../types/profile';
+import { GeminiProvider } from '../gemini';
+import * as sinon from 'sinon';
+
+suite('GeminiProvider', () => {
+    let sandbox: sinon.SinonSandbox;
+    let provider: GeminiProvider;
+
+    const mockConnection: ProviderConnection = {
+        id: 'gemini',
+        baseURL: 'https://generativelanguage.googleapis.com/v1beta',
+        apiKey: 'test-api-key'
+    };
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        provider = new GeminiProvider();
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    test('languageModel() should return a language model with correct configuration', () => {
+        const mockProfile: ProfileWithAPIKey = {
+            id: 'test-profile',
+            name: 'Test Profile',
+            provider: 'gemini',
+            baseURL: 'https://generativelanguage.googleapis.com/v1beta',
+            modelId: 'gemini-2.5-flash',
+            apiKey: 'test-api-key'
+        };
+
+        const languageModel = provider.languageModel(mockProfile);
+
+        expect(languageModel).to.be.an('object');
+        expect(languageModel.modelId).to.equal('gemini-2.5-flash');
+    });
+
+    suite('listModels', () => {
+        let fetchStub: sinon.SinonStub;
+
+        setup(() => {
+            fetchStub = sandbox.stub(global, 'fetch');
+        });
+
+        test('listModels should return the models generating content', async () => {
+            fetchStub.resolves({
+                ok: true,
+                status: 200,
+                json: async () => ({
+                    models: [
+                        { name: 'models/gemini-2.5-flash', displayName: 'Gemini 2.5 Flash', inputTokenLimit: 1048576, supportedGenerationMethods: ['generateContent', 'countTokens'] },
+                        { name: 'models/text-embedding-004', displayName: 'Text Embedding 004', supportedGenerationMethods: ['embedContent'] }
+                    ]
+                })
+            });
+
+            const result = await provider.listModels(mockConnection);
+
+            expect(fetchStub.firstCall.args[0]).to.equal('https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000');
+            expect(fetchStub.firstCall.args[1]).to.deep.include({
+                method: 'GET',
+                headers: {
+                    'x-goog-api-key': 'test-api-key'
+                }
+            });
+            expect(result).to.deep.equal([{ id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', contextLength: 1048576 }]);
+        });
+
+        test('listModels should return empty array on network error', async () => {
+            fetchStub.rejects(new Error('fetch failed'));
+
+            const result = await provider.listModels(mockConnection);
+
+            expect(result).to.deep.equal([]);
+        });
+    });
+});
@@ -0,0 +1,74 @@
+import { expect } from 'chai';
+import { DEFAULT_MAX_OUTPUT_TOKENS, samplingSettings, validateGenerationParams } from '../generation';
+
+suite('generation', () => {
+    suite('samplingSettings', () => {
+        test('should limit the output length by default', () => {
+            expect(samplingSettings()).to.deep.equal({
+                temperature: undefined,
+                maxOutputTokens: DEFAULT_MAX_OUTPUT_TOKENS,
+                topP: undefined,
+                stopSequences: undefined
+            });
+        });
+
+        test('should use the sampling settings of the profile', () => {
+            const settings = samplingSettings({
+                temperature: 0.2,
+                maxOutputTokens: 64,
+                topP: 0.9,
+                stopSequences: ['\n\n'],
+                headers: { 'X-Team': 'platform' }
+            });
+
+            expect(settings).to.deep.equal({ temperature: 0.2, maxOutputTokens: 64, topP: 0.9, stopSequences: ['\n\n'] });
+        });
+    });
+
+    suite('validateGenerationParams', () => {
+        test('should accept valid parameters', () => {
+            expect(validateGenerationParams('openai', {
+                temperature: 0.2,
+                maxOutputTokens: 128,
+                topP: 1,
+                stopSequences: ['\n\n'],
+                headers: { 'X-Team': 'platform' },
+                extraBody: { seed: 42 }
+            })).to.be.empty;
+        });
+
+        test('should check the temperature range of the provider', () => {
+            expect(validateGenerationParams('openai', { temperature: 1.8 })).to.be.empty;
+            expect(validateGenerationParams('mistral', { temperature: 1.8 })).to.have.length(1);
+            expect(validateGenerationParams('anthropic', { temperature: 1.5 })).to.have.length(1);
+            expect(validateGenerationParams('ollama', { temperature: 3 })).to.be.empty;
+            expect(validateGenerationParams('ollama', { temperature: -1 })).to.have.length(1);
+        });
+
+        test('should reject invalid output lengths and top-p', () => {
+            expect(validateGenerationParams('openai', { maxOutputTokens: 0 })).to.have.length(1);
+            expect(validateGenerationParams('openai', { maxOutputTokens: 12.5 })).to.have.length(1);
+            expect(validateGenerationParams('openai', { topP: 0 })).to.have.length(1);
+            expect(validateGenerationParams('openai', { topP: 1.5 })).to.have.length(1);
+        });
+
+        test('should check the number of stop sequences of the provider', () => {
+            const stopSequences = ['a', 'b', 'c', 'd', 'e'];
+
+            expect(validateGenerationParams('openai', { stopSequences })).to.have.length(1);
+            expect(validateGenerationParams('openrouter', { stopSequences })).to.be.empty;
+            expect(validateGenerationParams('openrouter', { stopSequences: [''] })).to.have.length(1);
+        });
+
+        test('should reject headers which are not strings', () => {
+            expect(validateGenerationParams('openai', { headers: { 'X-Retry': 3 } as unknown as Record<string, string> })).to.have.length(1);
+        });
+
+        test('should reject extra body fields set by TabCoder', () => {
+            expect(validateGenerationParams('openai', { extraBody: { model: 'gpt-4o' } })[0]).to.include('model');
+            expect(validateGenerationParams('mistral-codestral', { extraBody: { suffix: '' } })).to.have.length(1);
+            expect(validateGenerationParams('ollama', { extraBody: { num_ctx: 8192 } })).to.be.empty;
+            expect(validateGenerationParams('gemini', { extraBody: { generationConfig: {} } })).to.have.length(1);
+        });
+    });
+});
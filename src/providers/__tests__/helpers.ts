@@ -0,0 +1,12 @@
+import { APICallError } from '@ai-sdk/provider';
+
+export function apiCallError(statusCode: number | undefined, responseBody?: string, responseHeaders?: Record<string, string>): APICallError {
+    return new APICallError({
+        message: `HTTP error, status: ${statusCode}`,
+        url: 'https://api.example.com/v1/chat/completions',
+        requestBodyValues: {},
+        statusCode,
+        responseHeaders,
+        responseBody,
+    });
+}
@@ -0,0 +1,134 @@
+import { expect } from 'chai';
+import { ProfileWithAPIKey, ProviderConnection } from '../../types/profile';
+import { LlamaCppProvider } from '../llamacpp';
+import * as sinon from 'sinon';
+
+suite('LlamaCppProvider', () => {
+    let sandbox: sinon.SinonSandbox;
+    let provider: LlamaCppProvider;
+
+    const mockProfile: ProfileWithAPIKey = {
+        id: 'test-profile',
+        name: 'Test Profile',
+        provider: 'llamacpp',
+        baseURL: 'http://localhost:8080',
+        modelId: 'qwen2.5-coder-1.5b',
+        apiKey: ''
+    };
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        provider = new LlamaCppProvider();
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    test('languageModel() should return a language model with correct configuration', () => {
+        const languageModel = provider.languageModel(mockProfile);
+
+        expect(languageModel).to.be.an('object');
+        expect(languageModel.modelId).to.equal('qwen2.5-coder-1.5b');
+    });
+
+    test('fimModel() should use /infill unless the profile uses the chat API', () => {
+        expect(provider.fimModel(mockProfile)?.supportsSnippets).to.be.true;
+        expect(provider.fimModel({ ...mockProfile, fimMode: 'suffix' })).to.not.be.undefined;
+        expect(provider.fimModel({ ...mockProfile, fimMode: 'chat' })).to.be.undefined;
+    });
+
+    suite('fimModel().complete', () => {
+        let fetchStub: sinon.SinonStub;
+
+        setup(() => {
+            fetchStub = sandbox.stub(global, 'fetch');
+        });
+
+        test('complete should call the infill endpoint with prefix, suffix and snippets', async () => {
+            fetchStub.resolves({
+                ok: true,
+                status: 200,
+                json: async () => ({ content: 'a + b', tokens_evaluated: 42, tokens_predicted: 3 })
+            });
+
+            const result = await provider.fimModel(mockProfile)!.complete({
+                prefix: 'function add(a, b) {\n  return ',
+                suffix: ';\n}',
+                snippets: [{ filename: 'math.ts', content: 'export const PI = 3.14;' }]
+            });
+
+            expect(fetchStub.firstCall.args[0]).to.equal('http://localhost:8080/infill');
+            expect(fetchStub.firstCall.args[1].headers).to.deep.equal({ 'Content-Type': 'application/json' });
+            expect(JSON.parse(fetchStub.firstCall.args[1].body)).to.deep.equal({
+                input_prefix: 'function add(a, b) {\n  return ',
+                input_suffix: ';\n}',
+                input_extra: [{ filename: 'math.ts', text: 'export const PI = 3.14;' }],
+                stream: false
+            });
+
+            expect(result.text).to.equal('a + b');
+            expect(result.usage).to.deep.equal({ inputTokens: 42, outputTokens: 3 });
+        });
+
+        test('complete should send the API key and the generation parameters of the profile', async () => {
+            fetchStub.resolves({
+                ok: true,
+                status: 200,
+                json: async () => ({ content: 'a + b' })
+            });
+
+            await provider.fimModel({
+                ...mockProfile,
+                apiKey: 'test-api-key',
+                generation: { extraBody: { cache_prompt: true } }
+            })!.complete({
+                prefix: 'return ',
+                suffix: ';',
+                temperature: 0.2,
+                maxOutputTokens: 64,
+                topP: 0.9,
+                stopSequences: ['\n\n']
+            });
+
+            expect(fetchStub.firstCall.args[1].headers).to.include({ 'Authorization': 'Bearer test-api-key' });
+            expect(JSON.parse(fetchStub.firstCall.args[1].body)).to.deep.equal({
+                cache_prompt: true,
+                input_prefix: 'return ',
+                input_suffix: ';',
+                stream: false,
+                temperature: 0.2,
+                n_predict: 64,
+                top_p: 0.9,
+                stop: ['\n\n']
+            });
+        });
+    });
+
+    suite('listModels', () => {
+        let fetchStub: sinon.SinonStub;
+
+        setup(() => {
+            fetchStub = sandbox.stub(global, 'fetch');
+        });
+
+        test('listModels should list the models of the OpenAI compatible API', async () => {
+            const mockConnection: ProviderConnection = {
+                id: 'llamacpp',
+                baseURL: 'http://localhost:8080',
+                apiKey: ''
+            };
+
+            fetchStub.resolves({
+                ok: true,
+                status: 200,
+                json: async () => ({ data: [{ id: 'qwen2.5-coder-1.5b', object: 'model' }] })
+            });
+
+            const result = await provider.listModels(mockConnection);
+
+            expect(fetchStub.firstCall.args[0]).to.equal('http://localhost:8080/v1/models');
+            expect(result).to.deep.equal([{ id: 'qwen2.5-coder-1.5b', name: 'qwen2.5-coder-1.5b' }]);
+        });
+    });
+});
@@ -0,0 +1,80 @@
+import { expect } from 'chai';
+import { ProfileWithAPIKey } from '../../types/profile';
+import { LMStudioProvider } from '../lmstudio';
+import * as sinon from 'sinon';
+
+suite('LMStudioProvider', () => {
+    let sandbox: sinon.SinonSandbox;
+    let provider: LMStudioProvider;
+
+    const mockProfile: ProfileWithAPIKey = {
+        id: 'test-profile',
+        name: 'Test Profile',
+        provider: 'lmstudio',
+        baseURL: 'http://localhost:1234/v1',
+        modelId: 'qwen2.5-coder-7b-instruct',
+        fimMode: 'qwen',
+        apiKey: ''
+    };
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        provider = new LMStudioProvider();
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    test('languageModel() should return a language model with correct configuration', () => {
+        const languageModel = provider.languageModel(mockProfile);
+
+        expect(languageModel).to.be.an('object');
+        expect(languageModel.modelId).to.equal('qwen2.5-coder-7b-instruct');
+    });
+
+    test('fimModel() should only be returned for FIM templates', () => {
+        expect(provider.fimModel(mockProfile)).to.not.be.undefined;
+        expect(provider.fimModel({ ...mockProfile, fimMode: undefined })).to.be.undefined;
+        expect(provider.fimModel({ ...mockProfile, fimMode: 'chat' })).to.be.undefined;
+    });
+
+    suite('fimModel().complete', () => {
+        let fetchStub: sinon.SinonStub;
+
+        setup(() => {
+            fetchStub = sandbox.stub(global, 'fetch');
+        });
+
+        test('complete should send a raw prompt with the FIM tokens of the model', async () => {
+            fetchStub.resolves({
+                ok: true,
+                status: 200,
+                json: async () => ({
+                    choices: [{ index: 0, text: 'a + b' }],
+                    usage: { prompt_tokens: 12, completion_tokens: 3 }
+                })
+            });
+
+            const result = await provider.fimModel(mockProfile)!.complete({
+                prefix: 'return ',
+                suffix: ';',
+                maxOutputTokens: 64,
+                stopSequences: ['\n\n']
+            });
+
+            expect(fetchStub.firstCall.args[0]).to.equal('http://localhost:1234/v1/completions');
+            const body = JSON.parse(fetchStub.firstCall.args[1].body);
+            expect(body).to.include({
+                model: 'qwen2.5-coder-7b-instruct',
+                prompt: '<|fim_prefix|>return <|fim_suffix|>;<|fim_middle|>',
+                stream: false,
+                max_tokens: 64
+            });
+            expect(body.stop).to.include('<|fim_middle|>').and.include('\n\n');
+
+            expect(result.text).to.equal('a + b');
+            expect(result.usage).to.deep.equal({ inputTokens: 12, outputTokens: 3 });
+        });
+    });
+});
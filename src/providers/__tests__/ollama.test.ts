@@ -124,7 +124,7 @@ suite('OllamaProvider', () => {
                         modified_at: '2023-12-07T09:32:18.757212583Z',
                         size: 3825819519,
                         digest: 'sha256:bc07c81de745696fdf5afca05e065818a8149fb0c77266fb584d9b2cba3711ab',
-                        details: {}
+                        details: { parameter_size: '7B', quantization_level: 'Q4_0' }
                     },
                     {
                         name: 'codellama:7b',
@@ -137,15 +137,22 @@ suite('OllamaProvider', () => {
                 ]
             };
 
-            fetchStub.resolves({
+            fetchStub.withArgs('http://localhost:11434/api/tags').resolves({
                 ok: true,
                 status: 200,
                 json: async () => mockResponse
             });
+            fetchStub.withArgs('http://localhost:11434/api/show').callsFake(async (_url, init) => JSON.parse(init.body).model === 'codellama:7b'
+                ? {
+                    ok: true,
+                    status: 200,
+                    json: async () => ({ model_info: { 'llama.context_length': 16384 }, capabilities: ['completion', 'insert'] })
+                }
+                : { ok: false, status: 404, headers: new Headers(), text: async () => 'model not found' });
 
             const result = await provider.listModels(mockConnection);
 
-            expect(fetchStub.calledOnce).to.be.true;
+            expect(fetchStub.callCount).to.equal(3);
             expect(fetchStub.firstCall.args[0]).to.equal('http://localhost:11434/api/tags');
             expect(fetchStub.firstCall.args[1]).to.deep.include({
                 method: 'GET',
@@ -155,8 +162,47 @@ suite('OllamaProvider', () => {
             });
 
             expect(result).to.have.length(2);
-            expect(result[0]).to.deep.equal({ id: 'llama2:latest', name: 'llama2:latest' });
-            expect(result[1]).to.deep.equal({ id: 'codellama:7b', name: 'codellama:7b' });
+            expect(result[0]).to.deep.equal({
+                id: 'llama2:latest',
+                name: 'llama2:latest',
+                parameterSize: '7B',
+                quantization: 'Q4_0',
+                sizeBytes: 3825819519
+            });
+            expect(result[1]).to.deep.equal({
+                id: 'codellama:7b',
+                name: 'codellama:7b',
+                contextLength: 16384,
+                sizeBytes: 3825819519,
+                supportsFim: true
+            });
+        });
+
+        test('listModels should list models without the details taking too long', async () => {
+            const clock = sandbox.useFakeTimers();
+            const models = Array.from({ length: 6 }, (_, i) => ({ name: `model-${i}`, model: `model-${i}`, size: 1000 }));
+            fetchStub.withArgs('http://localhost:11434/api/tags').resolves({
+                ok: true,
+                status: 200,
+                json: async () => ({ models })
+            });
+            let pending = 0;
+            let maxPending = 0;
+            fetchStub.withArgs('http://localhost:11434/api/show').callsFake((_url, init: RequestInit) => new Promise((_resolve, reject) => {
+                maxPending = Math.max(maxPending, ++pending);
+                init.signal!.addEventListener('abort', () => {
+                    pending--;
+                    reject(new Error('aborted'));
+                });
+            }));
+
+            const listing = provider.listModels({ id: 'ollama', baseURL: 'http://localhost:11434', apiKey: '' });
+            await clock.tickAsync(4000);
+            const result = await listing;
+
+            expect(result.map(model => model.id)).to.deep.equal(models.map(model => model.model));
+            expect(result[0]).to.deep.equal({ id: 'model-0', name: 'model-0', sizeBytes: 1000 });
+            expect(maxPending).to.equal(4);
         });
 
         test('listModels should return empty array when API response has no models field', async () => {
@@ -372,9 +418,9 @@ suite('OllamaProvider', () => {
             const result = await provider.listModels(mockConnection);
 
             expect(result).to.have.length(3);
-            expect(result[0]).to.deep.equal({ id: 'llama2:latest', name: 'llama2:latest' });
-            expect(result[1]).to.deep.equal({ id: 'codellama:7b', name: undefined });
-            expect(result[2]).to.deep.equal({ id: undefined, name: 'mistral:latest' });
+            expect(result[0]).to.deep.equal({ id: 'llama2:latest', name: 'llama2:latest', sizeBytes: 3825819519 });
+            expect(result[1]).to.deep.equal({ id: 'codellama:7b', name: undefined, sizeBytes: 3825819519 });
+            expect(result[2]).to.deep.equal({ id: undefined, name: 'mistral:latest', sizeBytes: 3825819519 });
         });
 
         test('listModels should handle different baseURL formats', async () => {
@@ -396,4 +442,87 @@ suite('OllamaProvider', () => {
             expect(fetchStub.firstCall.args[0]).to.equal('http://192.168.1.100:11434/api/tags');
         });
     });
-});
\ No newline at end of file
+
+    suite('fimModel', () => {
+        let fetchStub: sinon.SinonStub;
+
+        const baseProfile: ProfileWithAPIKey = {
+            id: 'test-profile',
+            name: 'Test Profile',
+            provider: 'ollama',
+            baseURL: 'http://localhost:11434',
+            modelId: 'qwen2.5-coder:1.5b',
+            apiKey: ''
+        };
+
+        setup(() => {
+            fetchStub = sandbox.stub(global, 'fetch');
+            fetchStub.resolves({
+                ok: true,
+                status: 200,
+                json: async () => ({ response: 'a + b', prompt_eval_count: 10, eval_count: 4 })
+            });
+        });
+
+        test('fimModel() should return undefined in chat mode', () => {
+            expect(provider.fimModel(baseProfile)).to.be.undefined;
+            expect(provider.fimModel({ ...baseProfile, fimMode: 'chat' })).to.be.undefined;
+        });
+
+        test('complete should send prefix and suffix in suffix mode', async () => {
+            const result = await provider.fimModel({ ...baseProfile, fimMode: 'suffix' })!.complete({
+                prefix: 'return ',
+                suffix: ';'
+            });
+
+            expect(fetchStub.firstCall.args[0]).to.equal('http://localhost:11434/api/generate');
+            expect(JSON.parse(fetchStub.firstCall.args[1].body)).to.deep.equal({
+                model: 'qwen2.5-coder:1.5b',
+                prompt: 'return ',
+                suffix: ';',
+                stream: false
+            });
+            expect(result).to.deep.equal({ text: 'a + b', usage: { inputTokens: 10, outputTokens: 4 } });
+        });
+
+        test('complete should send a raw prompt with FIM tokens', async () => {
+            await provider.fimModel({ ...baseProfile, fimMode: 'qwen' })!.complete({
+                prefix: 'return ',
+                suffix: ';'
+            });
+
+            const body = JSON.parse(fetchStub.firstCall.args[1].body);
+            expect(body.raw).to.be.true;
+            expect(body.prompt).to.equal('<|fim_prefix|>return <|fim_suffix|>;<|fim_middle|>');
+            expect(body.options.stop).to.include('<|endoftext|>');
+        });
+
+        test('complete should send sampling settings and extra body fields as model options', async () => {
+            await provider.fimModel({
+                ...baseProfile,
+                fimMode: 'qwen',
+                generation: { extraBody: { num_ctx: 8192 } }
+            })!.complete({
+                prefix: 'return ',
+                suffix: ';',
+                temperature: 0.2,
+                maxOutputTokens: 64,
+                stopSequences: ['\n\n']
+            });
+
+            const options = JSON.parse(fetchStub.firstCall.args[1].body).options;
+            expect(options).to.include({ num_ctx: 8192, temperature: 0.2, num_predict: 64 });
+            expect(options.stop).to.include('<|endoftext|>').and.include('\n\n');
+        });
+
+        test('complete should build CodeLlama prompts', async () => {
+            await provider.fimModel({ ...baseProfile, modelId: 'codellama:7b-code', fimMode: 'codellama' })!.complete({
+                prefix: 'return ',
+                suffix: ';'
+            });
+
+            const body = JSON.parse(fetchStub.firstCall.args[1].body);
+            expect(body.prompt).to.equal('<PRE> return  <SUF>; <MID>');
+        });
+    });
+});
@@ -148,6 +148,68 @@ suite('OpenAICompatibleProvider', () => {
             expect(result[2]).to.deep.equal({ id: 'text-davinci-003', name: 'text-davinci-003' });
         });
 
+        test('listModels should return the metadata of OpenRouter models', async () => {
+            const mockConnection: ProviderConnection = {
+                id: 'openrouter',
+                baseURL: 'https://openrouter.ai/api/v1',
+                apiKey: 'test-api-key'
+            };
+
+            fetchStub.resolves({
+                ok: true,
+                status: 200,
+                json: async () => ({
+                    data: [
+                        {
+                            id: 'mistralai/codestral-2508',
+                            name: 'Mistral: Codestral 2508',
+                            context_length: 256000,
+                            pricing: { prompt: '0.0000003', completion: '0.0000009' }
+                        },
+                        { id: 'openrouter/auto', name: 'Auto Router', context_length: 2000000, pricing: { prompt: '-1', completion: '-1' } }
+                    ]
+                })
+            });
+
+            const result = await provider.listModels(mockConnection);
+
+            expect(result).to.deep.equal([
+                {
+                    id: 'mistralai/codestral-2508',
+                    name: 'Mistral: Codestral 2508',
+                    contextLength: 256000,
+                    pricing: { inputPerMillion: 0.3, outputPerMillion: 0.9 }
+                },
+                { id: 'openrouter/auto', name: 'Auto Router', contextLength: 2000000 }
+            ]);
+        });
+
+        test('listModels should return the context window and FIM support of Mistral models', async () => {
+            const mockConnection: ProviderConnection = {
+                id: 'mistral',
+                baseURL: 'https://api.mistral.ai/v1',
+                apiKey: 'test-api-key'
+            };
+
+            fetchStub.resolves({
+                ok: true,
+                status: 200,
+                json: async () => ({
+                    data: [
+                        { id: 'codestral-latest', max_context_length: 256000, capabilities: { completion_chat: true, completion_fim: true } },
+                        { id: 'mistral-small-latest', max_context_length: 131072, capabilities: { completion_chat: true, completion_fim: false } }
+                    ]
+                })
+            });
+
+            const result = await provider.listModels(mockConnection);
+
+            expect(result).to.deep.equal([
+                { id: 'codestral-latest', name: 'codestral-latest', contextLength: 256000, supportsFim: true },
+                { id: 'mistral-small-latest', name: 'mistral-small-latest', contextLength: 131072, supportsFim: false }
+            ]);
+        });
+
         test('listModels should return empty array when API response has no data field', async () => {
             const mockConnection: ProviderConnection = {
                 id: 'openai-compatible',
@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import { APICallError } from '@ai-sdk/provider';
+import { callWithRetry, RequestTimeoutError } from '../retry';
+import { apiCallError } from './helpers';
+
+suite('retry', () => {
+    const options = { timeoutMs: 1000, maxRetries: 2, baseDelayMs: 1, random: () => 1 };
+
+    test('should return the result of successful calls', async () => {
+        expect(await callWithRetry(async () => 'a + b', options)).to.equal('a + b');
+    });
+
+    test('should retry transient server errors', async () => {
+        let calls = 0;
+        const retries: number[] = [];
+
+        const result = await callWithRetry(async () => {
+            if (++calls < 3) {
+                throw apiCallError(503);
+            }
+            return 'a + b';
+        }, { ...options, onRetry: attempt => retries.push(attempt) });
+
+        expect(result).to.equal('a + b');
+        expect(retries).to.deep.equal([1, 2]);
+    });
+
+    test('should give up after the maximum number of retries', async () => {
+        let calls = 0;
+
+        try {
+            await callWithRetry(async () => {
+                calls++;
+                throw apiCallError(500);
+            }, options);
+            expect.fail('Expected an error');
+        } catch (error) {
+            expect(APICallError.isInstance(error) && error.statusCode).to.equal(500);
+            expect(calls).to.equal(3);
+        }
+    });
+
+    test('should not retry rate limits nor client errors', async () => {
+        for (const statusCode of [429, 401]) {
+            let calls = 0;
+            try {
+                await callWithRetry(async () => {
+                    calls++;
+                    throw apiCallError(statusCode);
+                }, options);
+                expect.fail('Expected an error');
+            } catch {
+                expect(calls).to.equal(1);
+            }
+        }
+    });
+
+    test('should abort attempts taking longer than the timeout', async () => {
+        let signal: AbortSignal | undefined;
+
+        try {
+            await callWithRetry(abortSignal => {
+                signal = abortSignal;
+                return new Promise((_resolve, reject) => abortSignal.addEventListener('abort', () => reject(new Error('aborted'))));
+            }, { ...options, timeoutMs: 10, maxRetries: 0 });
+            expect.fail('Expected an error');
+        } catch (error) {
+            expect(error).to.be.instanceOf(RequestTimeoutError);
+            expect(signal!.aborted).to.be.true;
+        }
+    });
+
+    test('should abort attempts when the request is cancelled', async () => {
+        const controller = new AbortController();
+
+        const result = callWithRetry(abortSignal => new Promise((_resolve, reject) => {
+            abortSignal.addEventListener('abort', () => {
+                const error = new Error('aborted');
+                error.name = 'AbortError';
+                reject(error);
+            });
+        }), { ...options, abortSignal: controller.signal });
+        controller.abort();
+
+        try {
+            await result;
+            expect.fail('Expected an error');
+        } catch (error) {
+            expect((error as Error).name).to.equal('AbortError');
+        }
+    });
+});
@@ -0,0 +1,60 @@
+import { ProfileWithAPIKey, ProviderConnection, Model } from "../types";
+import { type LanguageModelV2 } from "@ai-sdk/provider";
+import { LanguageModelProvider } from "./providers";
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { logger } from "../utils/logger";
+import { fetchWithExtraBody } from "./http";
+
+// Version of the Messages API, required by every request.
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface AnthropicModel {
+  id: string;
+  display_name: string;
+  created_at: string;
+}
+
+interface AnthropicModelList {
+  data: AnthropicModel[];
+}
+
+export class AnthropicProvider implements LanguageModelProvider {
+    languageModel(profile: ProfileWithAPIKey): LanguageModelV2 {
+        return createAnthropic({
+            baseURL: profile.baseURL,
+            apiKey: profile.apiKey,
+            headers: profile.generation?.headers,
+            fetch: fetchWithExtraBody(profile.generation?.extraBody),
+        })(profile.modelId);
+    }
+
+    async listModels(conn: ProviderConnection): Promise<Model[]> {
+        try {
+            const response = await fetch(`${conn.baseURL}/models?limit=1000`, {
+                method: 'GET',
+                headers: {
+                    'x-api-key': conn.apiKey,
+                    'anthropic-version': ANTHROPIC_VERSION,
+                },
+            });
+
+            if (!response.ok) {
+                throw new Error(`HTTP error, status: ${response.status}`);
+            }
+
+            const data = (await response.json()) as AnthropicModelList;
+
+            if (data.data && Array.isArray(data.data)) {
+                return data.data.map((m) => ({
+                    id: m.id,
+                    name: m.display_name || m.id,
+                }));
+            }
+
+            return [];
+        } catch (error) {
+            logger.error('Failed to fetch models:', error);
+            return [];
+        }
+    }
+}
@@ -0,0 +1,67 @@
+import { ProfileWithAPIKey, ProviderConnection, Model } from "../types";
+import { type LanguageModelV2 } from "@ai-sdk/provider";
+import { LanguageModelProvider } from "./providers";
+import { createAzure } from '@ai-sdk/azure';
+import { logger } from "../utils/logger";
+import { fetchWithExtraBody } from "./http";
+
+// Latest GA version of the Azure OpenAI data plane API.
+export const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+// Deployments can only be listed with this API version, later ones removed the endpoint.
+const DEPLOYMENTS_API_VERSION = '2022-12-01';
+
+interface AzureDeployment {
+  // Deployment name, used as model ID by the profiles.
+  id: string;
+  model: string;
+}
+
+interface AzureDeploymentList {
+  data: AzureDeployment[];
+}
+
+// The base URL is the endpoint of the resource, e.g.
+// https://my-resource.openai.azure.com/openai, and the model ID of the
+// profile is the name of the deployment.
+export class AzureOpenAIProvider implements LanguageModelProvider {
+    languageModel(profile: ProfileWithAPIKey): LanguageModelV2 {
+        return createAzure({
+            baseURL: profile.baseURL,
+            apiKey: profile.apiKey,
+            apiVersion: profile.apiVersion || DEFAULT_AZURE_API_VERSION,
+            useDeploymentBasedUrls: true,
+            headers: profile.generation?.headers,
+            fetch: fetchWithExtraBody(profile.generation?.extraBody),
+        }).chat(profile.modelId);
+    }
+
+    async listModels(conn: ProviderConnection): Promise<Model[]> {
+        try {
+            const response = await fetch(`${conn.baseURL}/deployments?api-version=${DEPLOYMENTS_API_VERSION}`, {
+                method: 'GET',
+                headers: {
+                    'api-key': conn.apiKey,
+                },
+            });
+
+            if (!response.ok) {
+                throw new Error(`HTTP error, status: ${response.status}`);
+            }
+
+            const data = (await response.json()) as AzureDeploymentList;
+
+            if (data.data && Array.isArray(data.data)) {
+                return data.data.map((d) => ({
+                    id: d.id,
+                    name: d.id,
+                }));
+            }
+
+            return [];
+        } catch (error) {
+            logger.error('Failed to fetch deployments:', error);
+            return [];
+        }
+    }
+}
@@ -0,0 +1,80 @@
+export type CircuitBreakerSettings = {
+    // Consecutive failures after which a profile is skipped.
+    failureThreshold: number;
+    // How long a failing profile is skipped before it is tried again.
+    cooldownMs: number;
+}
+
+type CircuitState = {
+    failures: number;
+    openedAt?: number;
+    // Set when the provider asked to wait (rate limits), the profile is never used before.
+    suspendedUntil?: number;
+}
+
+/**
+ * Skips profiles failing repeatedly: after failureThreshold consecutive
+ * failures the circuit of a profile opens for the cool-down period, then
+ * a request probes it again. A success closes it, a failure reopens it.
+ * Rate limited profiles are suspended until the time given by the provider.
+ */
+export class CircuitBreaker {
+    private states: Map<string, CircuitState> = new Map();
+    private now: () => number;
+
+    constructor(now: () => number = Date.now) {
+        this.now = now;
+    }
+
+    public isAvailable(key: string, settings: CircuitBreakerSettings): boolean {
+        const state = this.states.get(key);
+        if (this.isSuspended(key)) {
+            return false;
+        }
+        return state?.openedAt === undefined || this.now() - state.openedAt >= settings.cooldownMs;
+    }
+
+    public isSuspended(key: string): boolean {
+        const suspendedUntil = this.states.get(key)?.suspendedUntil;
+        return suspendedUntil !== undefined && this.now() < suspendedUntil;
+    }
+
+    /**
+     * Time when a suspended profile can be used again.
+     */
+    public suspendedUntil(key: string): number | undefined {
+        return this.isSuspended(key) ? this.states.get(key)?.suspendedUntil : undefined;
+    }
+
+    public suspend(key: string, durationMs: number): void {
+        const state = this.states.get(key) ?? { failures: 0 };
+        state.suspendedUntil = Math.max(state.suspendedUntil ?? 0, this.now() + durationMs);
+        this.states.set(key, state);
+    }
+
+    public recordSuccess(key: string): void {
+        this.states.delete(key);
+    }
+
+    public recordFailure(key: string, settings: CircuitBreakerSettings): void {
+        const state = this.states.get(key) ?? { failures: 0 };
+        state.failures++;
+        if (state.failures >= settings.failureThreshold) {
+            state.openedAt = this.now();
+        }
+        this.states.set(key, state);
+    }
+
+    /**
+     * The available keys in order, or all the keys which are not suspended
+     * when none is available.
+     */
+    public select(keys: string[], settings: CircuitBreakerSettings): string[] {
+        const available = keys.filter(key => this.isAvailable(key, settings));
+        return available.length > 0 ? available : keys.filter(key => !this.isSuspended(key));
+    }
+
+    public reset(): void {
+        this.states.clear();
+    }
+}
@@ -0,0 +1,63 @@
+import { ProfileWithAPIKey } from "../types";
+import { FimModel, FimRequest, FimResponse } from "./providers";
+import { OpenAICompatibleProvider } from "./openaiCompatible";
+import { postJson } from "./http";
+
+interface CodestralFimResponse {
+  choices?: {
+    message?: {
+      content?: string;
+    };
+  }[];
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  };
+}
+
+// Codestral exposes an OpenAI compatible chat API (used to list models),
+// and a dedicated /fim/completions endpoint used for completions.
+export class CodestralProvider extends OpenAICompatibleProvider {
+    fimModel(profile: ProfileWithAPIKey): FimModel {
+        return new CodestralFimModel(profile);
+    }
+}
+
+export class CodestralFimModel implements FimModel {
+    private profile: ProfileWithAPIKey;
+
+    constructor(profile: ProfileWithAPIKey) {
+        this.profile = profile;
+    }
+
+    get modelId(): string {
+        return this.profile.modelId;
+    }
+
+    async complete(request: FimRequest): Promise<FimResponse> {
+        const data = await postJson<CodestralFimResponse>(
+            `${this.profile.baseURL}/fim/completions`,
+            {
+                ...this.profile.generation?.extraBody,
+                model: this.profile.modelId,
+                prompt: request.prefix,
+                suffix: request.suffix,
+                stream: false,
+                temperature: request.temperature,
+                max_tokens: request.maxOutputTokens,
+                top_p: request.topP,
+                stop: request.stopSequences,
+            },
+            { ...this.profile.generation?.headers, 'Authorization': `Bearer ${this.profile.apiKey}` },
+            request.abortSignal
+        );
+
+        return {
+            text: data.choices?.[0]?.message?.content ?? '',
+            usage: {
+                inputTokens: data.usage?.prompt_tokens,
+                outputTokens: data.usage?.completion_tokens,
+            },
+        };
+    }
+}
@@ -0,0 +1,54 @@
+import { generateText } from "ai";
+import { ProfileWithAPIKey } from "../types";
+import { getFimModelFromProfile, getLanguageModelFromProfile } from "./providers";
+import { classifyProviderError, ProviderError } from "./errors";
+
+export const CONNECTION_TEST_TIMEOUT_MS = 15000;
+
+// Enough tokens to get an answer, few enough to cost nothing.
+const CONNECTION_TEST_MAX_OUTPUT_TOKENS = 8;
+
+export type ConnectionTestResult =
+    | { ok: true; latencyMs: number }
+    | { ok: false; latencyMs: number; error: ProviderError };
+
+/**
+ * Check that the profile works by requesting a minimal completion, with the
+ * native FIM endpoint when the profile has one.
+ */
+export async function testConnection(
+    profile: ProfileWithAPIKey,
+    timeoutMs: number = CONNECTION_TEST_TIMEOUT_MS
+): Promise<ConnectionTestResult> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    const start = Date.now();
+
+    try {
+        const fimModel = getFimModelFromProfile(profile);
+        if (fimModel) {
+            await fimModel.complete({
+                prefix: 'def add(a, b):\n    return ',
+                suffix: '\n',
+                maxOutputTokens: CONNECTION_TEST_MAX_OUTPUT_TOKENS,
+                abortSignal: controller.signal,
+            });
+        } else {
+            await generateText({
+                model: getLanguageModelFromProfile(profile),
+                prompt: 'Reply with OK.',
+                maxOutputTokens: CONNECTION_TEST_MAX_OUTPUT_TOKENS,
+                maxRetries: 0,
+                abortSignal: controller.signal,
+            });
+        }
+        return { ok: true, latencyMs: Date.now() - start };
+    } catch (error) {
+        const providerError = controller.signal.aborted
+            ? { kind: 'timeout' as const, message: `No answer after ${timeoutMs} ms` }
+            : classifyProviderError(error);
+        return { ok: false, latencyMs: Date.now() - start, error: providerError };
+    } finally {
+        clearTimeout(timeout);
+    }
+}
@@ -0,0 +1,149 @@
+import { APICallError } from "@ai-sdk/provider";
+
+export type ProviderErrorKind =
+    | 'auth'
+    | 'model-not-found'
+    | 'rate-limit'
+    | 'timeout'
+    | 'network'
+    | 'server'
+    | 'unknown';
+
+export type ProviderError = {
+    kind: ProviderErrorKind;
+    statusCode?: number;
+    message: string;
+    // Delay requested by the provider before the next request (Retry-After header).
+    retryAfterMs?: number;
+}
+
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ETIMEDOUT'];
+
+// Error bodies of providers answering 400 instead of 404 for unknown models.
+const MODEL_NOT_FOUND_PATTERN = /model.*(not found|does not exist|not exist|unknown|invalid)|(unknown|invalid) model/i;
+
+/**
+ * Classify an error thrown by a provider call. The AI SDK wraps errors
+ * (retries, provider errors), so the causes are inspected too.
+ */
+export function classifyProviderError(error: unknown): ProviderError {
+    const message = error instanceof Error ? error.message : String(error);
+
+    for (const cause of errorChain(error)) {
+        if (cause instanceof Error && (cause.name === 'AbortError' || cause.name === 'TimeoutError')) {
+            return { kind: 'timeout', message };
+        }
+
+        const statusCode = statusCodeOf(cause);
+        if (statusCode !== undefined) {
+            const retryAfterMs = APICallError.isInstance(cause) ? parseRetryAfter(cause.responseHeaders) : undefined;
+            return {
+                kind: kindOfStatus(statusCode, responseBodyOf(cause) ?? message),
+                statusCode,
+                message,
+                ...(retryAfterMs !== undefined && { retryAfterMs }),
+            };
+        }
+
+        const code = (cause as { code?: unknown })?.code;
+        if (typeof code === 'string' && NETWORK_ERROR_CODES.includes(code)) {
+            return { kind: 'network', message: `${message} (${code})` };
+        }
+    }
+
+    if (/fetch failed|network|ECONNREFUSED/i.test(message)) {
+        return { kind: 'network', message };
+    }
+    return { kind: 'unknown', message };
+}
+
+/**
+ * Short explanation of the error for users.
+ */
+export function describeProviderError(error: ProviderError): string {
+    switch (error.kind) {
+        case 'auth':
+            return 'Authentication failed, check the API key of the profile';
+        case 'model-not-found':
+            return 'Model not found, check the model of the profile';
+        case 'rate-limit':
+            return error.retryAfterMs !== undefined
+                ? `Rate limited by the provider, retry after ${Math.ceil(error.retryAfterMs / 1000)} s`
+                : 'Rate limited by the provider, try again later';
+        case 'timeout':
+            return 'The provider did not answer in time';
+        case 'network':
+            return 'Could not connect to the provider, check the base URL of the profile';
+        case 'server':
+            return `The provider failed with status ${error.statusCode}`;
+        default:
+            return error.message;
+    }
+}
+
+/**
+ * Delay of the Retry-After header, given in seconds or as an HTTP date,
+ * or of the retry-after-ms header used by some OpenAI compatible APIs.
+ */
+export function parseRetryAfter(headers: Record<string, string> | undefined, now: number = Date.now()): number | undefined {
+    const entries = Object.entries(headers ?? {});
+    const header = (name: string) => entries.find(([key]) => key.toLowerCase() === name)?.[1]?.trim();
+
+    const retryAfterMs = Number(header('retry-after-ms'));
+    if (header('retry-after-ms') && !isNaN(retryAfterMs)) {
+        return Math.max(0, retryAfterMs);
+    }
+
+    const retryAfter = header('retry-after');
+    if (!retryAfter) {
+        return undefined;
+    }
+    if (/^\d+(\.\d+)?$/.test(retryAfter)) {
+        return Number(retryAfter) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function kindOfStatus(statusCode: number, body: string): ProviderErrorKind {
+    if (statusCode === 401 || statusCode === 403) {
+        return 'auth';
+    } else if (statusCode === 404 || (statusCode === 400 && MODEL_NOT_FOUND_PATTERN.test(body))) {
+        return 'model-not-found';
+    } else if (statusCode === 429) {
+        return 'rate-limit';
+    } else if (statusCode === 408 || statusCode === 504) {
+        return 'timeout';
+    } else if (statusCode >= 500) {
+        return 'server';
+    }
+    return 'unknown';
+}
+
+// The error, then its causes and the last error of retries.
+function errorChain(error: unknown): unknown[] {
+    const chain: unknown[] = [];
+    let current = error;
+    while (current && typeof current === 'object' && !chain.includes(current) && chain.length < 10) {
+        chain.push(current);
+        const { cause, lastError } = current as { cause?: unknown; lastError?: unknown };
+        current = lastError ?? cause;
+    }
+    return chain;
+}
+
+function statusCodeOf(error: unknown): number | undefined {
+    if (APICallError.isInstance(error)) {
+        return error.statusCode;
+    }
+    // Errors of the Ollama client.
+    const statusCode = (error as { status_code?: unknown })?.status_code;
+    return typeof statusCode === 'number' ? statusCode : undefined;
+}
+
+function responseBodyOf(error: unknown): string | undefined {
+    if (APICallError.isInstance(error)) {
+        return error.responseBody;
+    }
+    return error instanceof Error ? error.message : undefined;
+}
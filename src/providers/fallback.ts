@@ -0,0 +1,59 @@
+import { CircuitBreaker, CircuitBreakerSettings } from "./circuitBreaker";
+import { classifyProviderError, ProviderError } from "./errors";
+import { DEFAULT_RATE_LIMIT_DELAY_MS, isCancellation } from "./retry";
+
+export type FallbackOptions<P extends { id: string }> = {
+    circuitBreaker: CircuitBreaker;
+    settings: CircuitBreakerSettings;
+    // Whether the request is still wanted, the chain is not followed past a failure otherwise.
+    isStillValid: () => boolean;
+    onSuccess?: (profile: P) => void;
+    onFailure?: (profile: P, error: unknown, providerError: ProviderError) => void;
+    onFallback?: (profile: P, nextProfile: P) => void;
+}
+
+/**
+ * Call the profiles of the chain in order until one succeeds, recording the
+ * outcome of each call in the circuit breaker. Cancelled calls are neither
+ * successes nor failures: their error is rethrown without recording anything.
+ */
+export async function callWithFallback<P extends { id: string }, T>(
+    profiles: P[],
+    call: (profile: P) => Promise<T>,
+    options: FallbackOptions<P>
+): Promise<T> {
+    const { circuitBreaker, settings, isStillValid, onSuccess, onFailure, onFallback } = options;
+
+    for (const [i, profile] of profiles.entries()) {
+        let result: T;
+        try {
+            result = await call(profile);
+        } catch (error) {
+            if (isCancellation(error)) {
+                throw error;
+            }
+
+            // Rate limited profiles are not broken, they are suspended until the provider accepts requests again.
+            const providerError = classifyProviderError(error);
+            if (providerError.kind === 'rate-limit') {
+                circuitBreaker.suspend(profile.id, providerError.retryAfterMs ?? DEFAULT_RATE_LIMIT_DELAY_MS);
+            } else {
+                circuitBreaker.recordFailure(profile.id, settings);
+            }
+            onFailure?.(profile, error, providerError);
+
+            const nextProfile = profiles[i + 1];
+            if (!nextProfile || !isStillValid()) {
+                throw error;
+            }
+            onFallback?.(profile, nextProfile);
+            continue;
+        }
+
+        circuitBreaker.recordSuccess(profile.id);
+        onSuccess?.(profile);
+        return result;
+    }
+
+    throw new Error('No profile to call');
+}
@@ -0,0 +1,66 @@
+import { ProfileWithAPIKey, ProviderConnection, Model } from "../types";
+import { type LanguageModelV2 } from "@ai-sdk/provider";
+import { LanguageModelProvider } from "./providers";
+import { listedModel } from "./models";
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { logger } from "../utils/logger";
+import { fetchWithExtraBody } from "./http";
+
+interface GeminiModel {
+  // Resource name, e.g. "models/gemini-2.0-flash".
+  name: string;
+  displayName: string;
+  inputTokenLimit?: number;
+  supportedGenerationMethods?: string[];
+}
+
+interface GeminiModelList {
+  models: GeminiModel[];
+}
+
+export class GeminiProvider implements LanguageModelProvider {
+    languageModel(profile: ProfileWithAPIKey): LanguageModelV2 {
+        return createGoogleGenerativeAI({
+            baseURL: profile.baseURL,
+            apiKey: profile.apiKey,
+            headers: profile.generation?.headers,
+            fetch: fetchWithExtraBody(profile.generation?.extraBody),
+        })(profile.modelId);
+    }
+
+    async listModels(conn: ProviderConnection): Promise<Model[]> {
+        try {
+            const response = await fetch(`${conn.baseURL}/models?pageSize=1000`, {
+                method: 'GET',
+                headers: {
+                    'x-goog-api-key': conn.apiKey,
+                },
+            });
+
+            if (!response.ok) {
+                throw new Error(`HTTP error, status: ${response.status}`);
+            }
+
+            const data = (await response.json()) as GeminiModelList;
+
+            // Embedding and other models can't generate text.
+            if (data.models && Array.isArray(data.models)) {
+                return data.models
+                    .filter((m) => m.supportedGenerationMethods?.includes('generateContent'))
+                    .map((m) => {
+                        const id = m.name.replace(/^models\//, '');
+                        return listedModel({
+                            id,
+                            name: m.displayName || id,
+                            contextLength: m.inputTokenLimit,
+                        });
+                    });
+            }
+
+            return [];
+        } catch (error) {
+            logger.error('Failed to fetch models:', error);
+            return [];
+        }
+    }
+}
@@ -0,0 +1,106 @@
+import { GenerationParams, ProviderID, SamplingSettings } from "../types";
+
+// Completions are cut at this length when the profile sets no limit:
+// long outputs are slow and rarely accepted.
+export const DEFAULT_MAX_OUTPUT_TOKENS = 256;
+
+type GenerationLimits = {
+    maxTemperature?: number;
+    maxStopSequences?: number;
+    // Body fields set by TabCoder, which extra body fields can't override.
+    reservedBodyFields: string[];
+}
+
+const CHAT_BODY_FIELDS = ['model', 'messages', 'stream'];
+
+const OPENAI_LIMITS: GenerationLimits = { maxTemperature: 2, maxStopSequences: 4, reservedBodyFields: CHAT_BODY_FIELDS };
+const OPENAI_COMPATIBLE_LIMITS: GenerationLimits = { maxTemperature: 2, reservedBodyFields: CHAT_BODY_FIELDS };
+const MISTRAL_LIMITS: GenerationLimits = { maxTemperature: 1.5, reservedBodyFields: CHAT_BODY_FIELDS };
+
+const GENERATION_LIMITS: Record<ProviderID, GenerationLimits> = {
+    'openai': OPENAI_LIMITS,
+    'groq': OPENAI_LIMITS,
+    'openrouter': OPENAI_COMPATIBLE_LIMITS,
+    'kilocode': OPENAI_COMPATIBLE_LIMITS,
+    'ovhcloud': OPENAI_COMPATIBLE_LIMITS,
+    'openai-compatible': OPENAI_COMPATIBLE_LIMITS,
+    'mistral': MISTRAL_LIMITS,
+    'mistral-codestral': { ...MISTRAL_LIMITS, reservedBodyFields: ['model', 'prompt', 'suffix', 'stream'] },
+    'azure': OPENAI_LIMITS,
+    'anthropic': { maxTemperature: 1, reservedBodyFields: ['model', 'messages', 'system', 'stream'] },
+    'gemini': { maxTemperature: 2, maxStopSequences: 5, reservedBodyFields: ['contents', 'systemInstruction', 'generationConfig'] },
+    'llamacpp': { reservedBodyFields: [...CHAT_BODY_FIELDS, 'input_prefix', 'input_suffix', 'input_extra'] },
+    'lmstudio': { reservedBodyFields: [...CHAT_BODY_FIELDS, 'prompt'] },
+    // Extra body fields are model options, not request fields.
+    'ollama': { reservedBodyFields: [] },
+};
+
+/**
+ * Sampling settings of the requests of a profile, with the default output limit.
+ */
+export function samplingSettings(params: GenerationParams = {}): SamplingSettings {
+    return {
+        temperature: params.temperature,
+        maxOutputTokens: params.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+        topP: params.topP,
+        stopSequences: params.stopSequences?.length ? params.stopSequences : undefined,
+    };
+}
+
+/**
+ * Check generation parameters against the limits of the provider, returning
+ * the errors found.
+ */
+export function validateGenerationParams(providerId: ProviderID, params: GenerationParams): string[] {
+    const limits = GENERATION_LIMITS[providerId];
+    const errors: string[] = [];
+
+    if (params.temperature !== undefined) {
+        if (typeof params.temperature !== 'number' || params.temperature < 0) {
+            errors.push('Temperature must be a positive number');
+        } else if (limits.maxTemperature !== undefined && params.temperature > limits.maxTemperature) {
+            errors.push(`Temperature must be at most ${limits.maxTemperature} for this provider`);
+        }
+    }
+
+    if (params.maxOutputTokens !== undefined && (!Number.isInteger(params.maxOutputTokens) || params.maxOutputTokens < 1)) {
+        errors.push('Maximum output tokens must be a positive integer');
+    }
+
+    if (params.topP !== undefined && (typeof params.topP !== 'number' || params.topP <= 0 || params.topP > 1)) {
+        errors.push('Top-p must be greater than 0 and at most 1');
+    }
+
+    if (params.stopSequences !== undefined) {
+        if (!Array.isArray(params.stopSequences) || params.stopSequences.some(stop => typeof stop !== 'string' || !stop)) {
+            errors.push('Stop sequences must be a list of non-empty strings');
+        } else if (limits.maxStopSequences !== undefined && params.stopSequences.length > limits.maxStopSequences) {
+            errors.push(`This provider accepts at most ${limits.maxStopSequences} stop sequences`);
+        }
+    }
+
+    if (params.headers !== undefined && !isStringRecord(params.headers)) {
+        errors.push('Headers must be an object of string values');
+    }
+
+    if (params.extraBody !== undefined) {
+        if (!isRecord(params.extraBody)) {
+            errors.push('Extra body fields must be an object');
+        } else {
+            const reserved = Object.keys(params.extraBody).filter(field => limits.reservedBodyFields.includes(field));
+            if (reserved.length > 0) {
+                errors.push(`Extra body fields can't override ${reserved.join(', ')}`);
+            }
+        }
+    }
+
+    return errors;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+    return isRecord(value) && Object.values(value).every(v => typeof v === 'string');
+}
@@ -0,0 +1,52 @@
+import { APICallError } from "@ai-sdk/provider";
+
+/**
+ * POST a JSON body and parse the JSON response, throwing an APICallError
+ * on non-2xx responses so callers can inspect the status code.
+ */
+export async function postJson<T>(
+    url: string,
+    body: Record<string, unknown>,
+    headers: Record<string, string>,
+    abortSignal?: AbortSignal
+): Promise<T> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+            ...headers,
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+        signal: abortSignal,
+    });
+
+    if (!response.ok) {
+        throw new APICallError({
+            message: `HTTP error, status: ${response.status}`,
+            url,
+            requestBodyValues: body,
+            statusCode: response.status,
+            responseHeaders: response.headers ? Object.fromEntries(response.headers.entries()) : undefined,
+            responseBody: await response.text(),
+        });
+    }
+
+    return (await response.json()) as T;
+}
+
+/**
+ * fetch adding extra fields to the JSON body of requests, for AI SDK providers
+ * which only send the fields they know. Fields set by the provider win.
+ */
+export function fetchWithExtraBody(extraBody: Record<string, unknown> | undefined): typeof fetch | undefined {
+    if (!extraBody || Object.keys(extraBody).length === 0) {
+        return undefined;
+    }
+
+    return (input, init) => {
+        if (typeof init?.body !== 'string') {
+            return fetch(input, init);
+        }
+        return fetch(input, { ...init, body: JSON.stringify({ ...extraBody, ...JSON.parse(init.body) }) });
+    };
+}
@@ -0,0 +1,78 @@
+import { ProfileWithAPIKey, ProviderConnection, Model } from "../types";
+import { type LanguageModelV2 } from "@ai-sdk/provider";
+import { FimModel, FimRequest, FimResponse } from "./providers";
+import { OpenAICompatibleProvider } from "./openaiCompatible";
+import { postJson } from "./http";
+
+interface LlamaCppInfillResponse {
+  content?: string;
+  tokens_evaluated?: number;
+  tokens_predicted?: number;
+}
+
+// llama-server exposes an OpenAI compatible API under /v1 (chat, models), and
+// a native /infill endpoint formatting the prompt with the FIM tokens of the
+// loaded model. The base URL of the profiles is the root of the server.
+export class LlamaCppProvider extends OpenAICompatibleProvider {
+    languageModel(profile: ProfileWithAPIKey): LanguageModelV2 {
+        return super.languageModel({ ...profile, baseURL: `${profile.baseURL}/v1` });
+    }
+
+    // Completions use /infill unless the profile asks for the chat API.
+    fimModel(profile: ProfileWithAPIKey): FimModel | undefined {
+        if (profile.fimMode === 'chat') {
+            return undefined;
+        }
+        return new LlamaCppFimModel(profile);
+    }
+
+    listModels(conn: ProviderConnection): Promise<Model[]> {
+        return super.listModels({ ...conn, baseURL: `${conn.baseURL}/v1` });
+    }
+}
+
+export class LlamaCppFimModel implements FimModel {
+    private profile: ProfileWithAPIKey;
+
+    // Snippets of other files are sent as input_extra, the server places them
+    // before the prefix with the file separator tokens of the model.
+    readonly supportsSnippets = true;
+
+    constructor(profile: ProfileWithAPIKey) {
+        this.profile = profile;
+    }
+
+    get modelId(): string {
+        return this.profile.modelId;
+    }
+
+    async complete(request: FimRequest): Promise<FimResponse> {
+        const data = await postJson<LlamaCppInfillResponse>(
+            `${this.profile.baseURL}/infill`,
+            {
+                ...this.profile.generation?.extraBody,
+                input_prefix: request.prefix,
+                input_suffix: request.suffix,
+                input_extra: request.snippets?.map(snippet => ({ filename: snippet.filename, text: snippet.content })),
+                stream: false,
+                temperature: request.temperature,
+                n_predict: request.maxOutputTokens,
+                top_p: request.topP,
+                stop: request.stopSequences,
+            },
+            {
+                ...this.profile.generation?.headers,
+                ...(this.profile.apiKey && { 'Authorization': `Bearer ${this.profile.apiKey}` }),
+            },
+            request.abortSignal
+        );
+
+        return {
+            text: data.content ?? '',
+            usage: {
+                inputTokens: data.tokens_evaluated,
+                outputTokens: data.tokens_predicted,
+            },
+        };
+    }
+}
@@ -0,0 +1,71 @@
+import { ProfileWithAPIKey } from "../types";
+import { FimModel, FimRequest, FimResponse } from "./providers";
+import { OpenAICompatibleProvider } from "./openaiCompatible";
+import { postJson } from "./http";
+import { fimTemplates, type FimTemplate } from "../autocomplete/fimTemplates";
+
+interface LMStudioCompletionResponse {
+  choices?: {
+    text?: string;
+  }[];
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  };
+}
+
+// LM Studio serves an OpenAI compatible API. Its /completions endpoint takes
+// raw prompts, built with the FIM tokens of the model when the profile
+// selects a FIM template.
+export class LMStudioProvider extends OpenAICompatibleProvider {
+    fimModel(profile: ProfileWithAPIKey): FimModel | undefined {
+        const template = fimTemplates[profile.fimMode as keyof typeof fimTemplates];
+        if (!template) {
+            return undefined;
+        }
+        return new LMStudioFimModel(profile, template);
+    }
+}
+
+export class LMStudioFimModel implements FimModel {
+    private profile: ProfileWithAPIKey;
+    private template: FimTemplate;
+
+    constructor(profile: ProfileWithAPIKey, template: FimTemplate) {
+        this.profile = profile;
+        this.template = template;
+    }
+
+    get modelId(): string {
+        return this.profile.modelId;
+    }
+
+    async complete(request: FimRequest): Promise<FimResponse> {
+        const data = await postJson<LMStudioCompletionResponse>(
+            `${this.profile.baseURL}/completions`,
+            {
+                ...this.profile.generation?.extraBody,
+                model: this.profile.modelId,
+                prompt: this.template.prompt(request.prefix, request.suffix),
+                stream: false,
+                temperature: request.temperature,
+                max_tokens: request.maxOutputTokens,
+                top_p: request.topP,
+                stop: [...this.template.stop, ...request.stopSequences ?? []],
+            },
+            {
+                ...this.profile.generation?.headers,
+                ...(this.profile.apiKey && { 'Authorization': `Bearer ${this.profile.apiKey}` }),
+            },
+            request.abortSignal
+        );
+
+        return {
+            text: data.choices?.[0]?.text ?? '',
+            usage: {
+                inputTokens: data.usage?.prompt_tokens,
+                outputTokens: data.usage?.completion_tokens,
+            },
+        };
+    }
+}
@@ -0,0 +1,12 @@
+import { Model } from "../types";
+
+/**
+ * Model listed by a provider, without the metadata fields it doesn't expose.
+ */
+export function listedModel({ id, name, ...metadata }: Model): Model {
+    return {
+        id,
+        name,
+        ...Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined)),
+    };
+}
@@ -1,8 +1,16 @@
 import { ProfileWithAPIKey, ProviderConnection, Model } from "../types";
 import { type LanguageModelV2 } from "@ai-sdk/provider";
-import { LanguageModelProvider } from "./providers";
-import { createOllama } from 'ai-sdk-ollama';
+import { FimModel, FimRequest, FimResponse, LanguageModelProvider } from "./providers";
+import { listedModel } from "./models";
+import { createOllama, type OllamaChatSettings } from 'ai-sdk-ollama';
 import { logger } from "../utils/logger";
+import { postJson } from "./http";
+import { fimTemplates } from "../autocomplete/fimTemplates";
+
+// Details of installed models are fetched this many at a time, each one
+// giving up after the timeout: the model is listed without them.
+const MODEL_DETAILS_CONCURRENCY = 4;
+const MODEL_DETAILS_TIMEOUT_MS = 2000;
 
 interface OllamaModel {
   name: string;
@@ -10,18 +18,46 @@ interface OllamaModel {
   modified_at: string;
   size: number;
   digest: string;
-  details: Record<string, unknown>;
+  details: {
+    family?: string;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
 }
 
 interface OllamaModelList {
   models: OllamaModel[];
 }
 
+interface OllamaShowResponse {
+  // Keys are prefixed with the architecture, e.g. "qwen2.context_length".
+  model_info?: Record<string, unknown>;
+  // "insert" when the template of the model supports suffixes.
+  capabilities?: string[];
+}
+
+interface OllamaGenerateResponse {
+  response: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
 export class OllamaProvider implements LanguageModelProvider {
     languageModel(profile: ProfileWithAPIKey): LanguageModelV2 {
+        // Extra body fields are model options, like num_ctx.
         return createOllama({
             baseURL: profile.baseURL,
-        })(profile.modelId);
+            headers: profile.generation?.headers,
+        })(profile.modelId, {
+            options: profile.generation?.extraBody as OllamaChatSettings['options'],
+        });
+    }
+
+    fimModel(profile: ProfileWithAPIKey): FimModel | undefined {
+        if (!profile.fimMode || profile.fimMode === 'chat') {
+            return undefined;
+        }
+        return new OllamaFimModel(profile);
     }
 
     async listModels(conn: ProviderConnection): Promise<Model[]> {
@@ -40,10 +76,18 @@ export class OllamaProvider implements LanguageModelProvider {
             const data = (await response.json()) as OllamaModelList;
             
             if (data.models && Array.isArray(data.models)) {
-                return data.models.map((m) => ({
-                    id: m.model,
-                    name: m.name,
-                }));
+                return mapWithConcurrency(data.models, MODEL_DETAILS_CONCURRENCY, async (m) => {
+                    const info = await this.showModel(conn, m.model);
+                    return listedModel({
+                        id: m.model,
+                        name: m.name,
+                        contextLength: info && contextLengthOf(info),
+                        parameterSize: m.details?.parameter_size || undefined,
+                        quantization: m.details?.quantization_level || undefined,
+                        sizeBytes: m.size,
+                        supportsFim: info?.capabilities ? info.capabilities.includes('insert') : undefined,
+                    });
+                });
             }
             
             return [];
@@ -52,5 +96,106 @@ export class OllamaProvider implements LanguageModelProvider {
             return [];
         }
     }
+
+    // Details of a model from /api/show, the model is listed without them on failure.
+    private async showModel(conn: ProviderConnection, model: string): Promise<OllamaShowResponse | undefined> {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), MODEL_DETAILS_TIMEOUT_MS);
+        try {
+            return await postJson<OllamaShowResponse>(`${conn.baseURL}/api/show`, { model }, {}, controller.signal);
+        } catch (error) {
+            logger.warn(`Failed to fetch details of model ${model}:`, error);
+            return undefined;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+}
+
+// Map the items with at most `concurrency` calls pending, keeping their order.
+async function mapWithConcurrency<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const i = next++;
+            results[i] = await fn(items[i]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return results;
+}
+
+function contextLengthOf(info: OllamaShowResponse): number | undefined {
+    const entry = Object.entries(info.model_info ?? {}).find(([key]) => key.endsWith('.context_length'));
+    return typeof entry?.[1] === 'number' ? entry[1] : undefined;
 }
 
+// Uses /api/generate to fill the middle, either with the model's own
+// template (suffix mode) or with a raw prompt built from FIM tokens.
+export class OllamaFimModel implements FimModel {
+    private profile: ProfileWithAPIKey;
+
+    constructor(profile: ProfileWithAPIKey) {
+        this.profile = profile;
+    }
+
+    get modelId(): string {
+        return this.profile.modelId;
+    }
+
+    async complete(request: FimRequest): Promise<FimResponse> {
+        const data = await postJson<OllamaGenerateResponse>(
+            `${this.profile.baseURL}/api/generate`,
+            this.requestBody(request),
+            this.profile.generation?.headers ?? {},
+            request.abortSignal
+        );
+
+        return {
+            text: data.response ?? '',
+            usage: {
+                inputTokens: data.prompt_eval_count,
+                outputTokens: data.eval_count,
+            },
+        };
+    }
+
+    private requestBody(request: FimRequest): Record<string, unknown> {
+        if (this.profile.fimMode === 'suffix') {
+            return {
+                model: this.profile.modelId,
+                prompt: request.prefix,
+                suffix: request.suffix,
+                stream: false,
+                ...this.options(request),
+            };
+        }
+
+        const template = fimTemplates[this.profile.fimMode as keyof typeof fimTemplates];
+        if (!template) {
+            throw new Error(`Unsupported FIM mode: ${this.profile.fimMode}`);
+        }
+
+        return {
+            model: this.profile.modelId,
+            prompt: template.prompt(request.prefix, request.suffix),
+            raw: true,
+            stream: false,
+            ...this.options(request, template.stop),
+        };
+    }
+
+    // Model options of the request, omitted when there are none.
+    private options(request: FimRequest, templateStop: string[] = []): { options?: Record<string, unknown> } {
+        const stop = [...templateStop, ...request.stopSequences ?? []];
+        const options = Object.fromEntries(Object.entries({
+            ...this.profile.generation?.extraBody,
+            temperature: request.temperature,
+            num_predict: request.maxOutputTokens,
+            top_p: request.topP,
+            stop: stop.length > 0 ? stop : undefined,
+        }).filter(([, value]) => value !== undefined));
+        return Object.keys(options).length > 0 ? { options } : {};
+    }
+}
@@ -1,16 +1,30 @@
-import { ProfileWithAPIKey, ProviderConnection, Model } from "../types";
+import { ProfileWithAPIKey, ProviderConnection, Model, ModelPricing } from "../types";
 import { type LanguageModelV2 } from "@ai-sdk/provider";
 import { LanguageModelProvider } from "./providers";
+import { listedModel } from "./models";
+import { type JSONValue } from "@ai-sdk/provider";
 import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { defaultSettingsMiddleware, wrapLanguageModel } from 'ai';
 import { logger } from "../utils/logger";
 
+// Fields beyond the id are extensions of some providers.
 interface OpenAIModel {
-  name: string;
-  model: string;
-  modified_at: string;
-  size: number;
-  digest: string;
-  details: Record<string, unknown>;
+  id: string;
+  // OpenRouter, KiloCode
+  name?: string;
+  context_length?: number;
+  // Prices in USD per token, "-1" when variable.
+  pricing?: {
+    prompt?: string;
+    completion?: string;
+  };
+  // Groq
+  context_window?: number;
+  // Mistral
+  max_context_length?: number;
+  capabilities?: {
+    completion_fim?: boolean;
+  };
 }
 
 interface OpenAIModelList {
@@ -19,11 +33,24 @@ interface OpenAIModelList {
 
 export class OpenAICompatibleProvider implements LanguageModelProvider {
     languageModel(profile: ProfileWithAPIKey): LanguageModelV2 {
-        return createOpenAICompatible({
-            name: "",
+        const model = createOpenAICompatible({
+            name: profile.provider,
             baseURL: profile.baseURL,
             apiKey: profile.apiKey,
+            headers: profile.generation?.headers,
         })(profile.modelId);
+
+        // Provider options named after the provider are added to the request body.
+        const extraBody = profile.generation?.extraBody;
+        if (!extraBody) {
+            return model;
+        }
+        return wrapLanguageModel({
+            model,
+            middleware: defaultSettingsMiddleware({
+                settings: { providerOptions: { [profile.provider]: extraBody as Record<string, JSONValue> } },
+            }),
+        });
     }
 
     async listModels(conn: ProviderConnection): Promise<Model[]> {
@@ -43,9 +70,12 @@ export class OpenAICompatibleProvider implements LanguageModelProvider {
             const data = await response.json() as OpenAIModelList;
             
             if (data.data && Array.isArray(data.data)) {
-                return data.data.map((model: any) => ({
+                return data.data.map((model) => listedModel({
                     id: model.id,
-                    name: model.id,
+                    name: model.name || model.id,
+                    contextLength: model.context_length ?? model.context_window ?? model.max_context_length,
+                    pricing: pricingPerMillion(model.pricing),
+                    supportsFim: model.capabilities?.completion_fim,
                 }));
             }
             
@@ -55,4 +85,14 @@ export class OpenAICompatibleProvider implements LanguageModelProvider {
             return [];
         }
     }
-}
\ No newline at end of file
+}
+
+function pricingPerMillion(pricing: OpenAIModel['pricing']): ModelPricing | undefined {
+    const inputPerMillion = Number(pricing?.prompt) * 1_000_000;
+    const outputPerMillion = Number(pricing?.completion) * 1_000_000;
+    if (!pricing || !(inputPerMillion >= 0) || !(outputPerMillion >= 0)) {
+        return undefined;
+    }
+    // Rounded to hide floating point errors of the conversion.
+    return { inputPerMillion: Number(inputPerMillion.toFixed(6)), outputPerMillion: Number(outputPerMillion.toFixed(6)) };
+}
@@ -1,10 +1,46 @@
-import { ProfileWithAPIKey, Provider, ProviderConnection, ProviderID, Model } from "../types";
+import { type CodeSnippet } from "../autocomplete/context";
+import { ProfileWithAPIKey, Provider, ProviderConnection, ProviderID, Model, SamplingSettings } from "../types";
 import { OpenAICompatibleProvider } from "./openaiCompatible";
 import { OllamaProvider } from "./ollama";
+import { CodestralProvider } from "./codestral";
+import { AnthropicProvider } from "./anthropic";
+import { GeminiProvider } from "./gemini";
+import { AzureOpenAIProvider } from "./azure";
+import { LlamaCppProvider } from "./llamacpp";
+import { LMStudioProvider } from "./lmstudio";
 import { type LanguageModelV2 } from "@ai-sdk/provider";
 
+// Request sent to a native fill-in-the-middle endpoint. Headers and extra
+// body fields of the profile are added by the model.
+export type FimRequest = SamplingSettings & {
+    prefix: string;
+    suffix: string;
+    // Code of other files, only set for models sending it apart from the prefix.
+    snippets?: CodeSnippet[];
+    abortSignal?: AbortSignal;
+}
+
+export type FimResponse = {
+    text: string;
+    usage: {
+        inputTokens?: number;
+        outputTokens?: number;
+    };
+}
+
+// A model exposing a native fill-in-the-middle endpoint, used instead of
+// the chat model and its hole filler prompt when available.
+export interface FimModel {
+    readonly modelId: string;
+    // Whether snippets of other files are sent apart, otherwise they are
+    // prepended to the prefix.
+    readonly supportsSnippets?: boolean;
+    complete(request: FimRequest): Promise<FimResponse>
+}
+
 export interface LanguageModelProvider {
     languageModel(profile: ProfileWithAPIKey): LanguageModelV2
+    fimModel?(profile: ProfileWithAPIKey): FimModel | undefined
     listModels(conn: ProviderConnection): Promise<Model[]>
 }
 
@@ -17,15 +53,33 @@ function languageModelProvider(providerId: ProviderID): LanguageModelProvider {
         case 'groq':
         case 'openai-compatible':
         case 'mistral':
-        case 'mistral-codestral': // TODO: we should support FIM endpoint.
             return new OpenAICompatibleProvider();
+        case 'mistral-codestral':
+            return new CodestralProvider();
         case 'ollama':
             return new OllamaProvider();
+        case 'anthropic':
+            return new AnthropicProvider();
+        case 'gemini':
+            return new GeminiProvider();
+        case 'azure':
+            return new AzureOpenAIProvider();
+        case 'llamacpp':
+            return new LlamaCppProvider();
+        case 'lmstudio':
+            return new LMStudioProvider();
         default:
             throw new Error(`Unsupported provider: ${providerId}`);
     }
 }
 
+// Local servers work without API key, Ollama doesn't even accept one.
+const OPTIONAL_API_KEY_PROVIDERS: ProviderID[] = ['ollama', 'llamacpp', 'lmstudio'];
+
+export function requiresApiKey(providerId: ProviderID): boolean {
+    return !OPTIONAL_API_KEY_PROVIDERS.includes(providerId);
+}
+
 export function listModelsFromProviderConnection(conn: ProviderConnection): Promise<Model[]> {
     return languageModelProvider(conn.id).listModels(conn);
 }
@@ -34,6 +88,10 @@ export function getLanguageModelFromProfile(profile: ProfileWithAPIKey): Languag
     return languageModelProvider(profile.provider).languageModel(profile);
 }
 
+export function getFimModelFromProfile(profile: ProfileWithAPIKey): FimModel | undefined {
+    return languageModelProvider(profile.provider).fimModel?.(profile);
+}
+
 
 export const providers: Provider[] = [
   {
@@ -80,5 +138,30 @@ export const providers: Provider[] = [
     id: 'mistral-codestral',
     name: 'Codestral (mistral)',
     defaultBaseURL: "https://codestral.mistral.ai/v1"
+  },
+  {
+    id: 'anthropic',
+    name: 'Anthropic',
+    defaultBaseURL: 'https://api.anthropic.com/v1'
+  },
+  {
+    id: 'gemini',
+    name: 'Google Gemini',
+    defaultBaseURL: 'https://generativelanguage.googleapis.com/v1beta'
+  },
+  {
+    id: 'azure',
+    name: 'Azure OpenAI',
+    defaultBaseURL: 'https://YOUR-RESOURCE-NAME.openai.azure.com/openai'
+  },
+  {
+    id: 'llamacpp',
+    name: 'llama.cpp server',
+    defaultBaseURL: 'http://localhost:8080'
+  },
+  {
+    id: 'lmstudio',
+    name: 'LM Studio',
+    defaultBaseURL: 'http://localhost:1234/v1'
   }
 ];
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { classifyProviderError, ProviderError } from "./errors";
+
+// Completions are requested as the user types, a slow provider is useless past this delay.
+export const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+
+export const DEFAULT_MAX_RETRIES = 2;
+
+// Rate limited profiles are suspended this long when the provider doesn't say how long to wait.
+export const DEFAULT_RATE_LIMIT_DELAY_MS = 30000;
+
+export type RetryOptions = {
+    timeoutMs: number;
+    // Retries of transient server errors, rate limits are never retried.
+    maxRetries: number;
+    // Delay before the first retry, doubled for each one, with full jitter.
+    baseDelayMs?: number;
+    abortSignal?: AbortSignal;
+    onRetry?: (attempt: number, delayMs: number, error: ProviderError) => void;
+    random?: () => number;
+}
+
+/**
+ * Thrown when an attempt takes longer than the timeout. Unlike an AbortError,
+ * it counts as a failure of the provider.
+ */
+export class RequestTimeoutError extends Error {
+    constructor(timeoutMs: number) {
+        super(`No answer after ${timeoutMs} ms`);
+        this.name = 'TimeoutError';
+    }
+}
+
+/**
+ * Thrown when the request is cancelled or superseded by a newer one. Like an
+ * AbortError, it is neither a success nor a failure of the provider.
+ */
+export class RequestCancelledError extends Error {
+    constructor(message = 'Request cancelled') {
+        super(message);
+        this.name = 'AbortError';
+    }
+}
+
+export function isCancellation(error: unknown): boolean {
+    return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Call a provider with a timeout for each attempt, retrying transient server
+ * errors after a backoff delay. Each attempt gets its own abort signal,
+ * aborted on timeout or when the given signal is.
+ */
+export async function callWithRetry<T>(call: (abortSignal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> {
+    const { timeoutMs, maxRetries, baseDelayMs = 250, abortSignal, onRetry, random = Math.random } = options;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await withTimeout(call, timeoutMs, abortSignal);
+        } catch (error) {
+            const providerError = classifyProviderError(error);
+            if (attempt >= maxRetries || providerError.kind !== 'server' || abortSignal?.aborted) {
+                throw error;
+            }
+
+            const delayMs = Math.round(random() * baseDelayMs * 2 ** attempt);
+            onRetry?.(attempt + 1, delayMs, providerError);
+            await sleep(delayMs, abortSignal);
+        }
+    }
+}
+
+async function withTimeout<T>(call: (abortSignal: AbortSignal) => Promise<T>, timeoutMs: number, abortSignal?: AbortSignal): Promise<T> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    abortSignal?.addEventListener('abort', abort);
+
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+
+    try {
+        return await call(controller.signal);
+    } catch (error) {
+        throw timedOut ? new RequestTimeoutError(timeoutMs) : error;
+    } finally {
+        clearTimeout(timeout);
+        abortSignal?.removeEventListener('abort', abort);
+    }
+}
+
+function sleep(delayMs: number, abortSignal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timeout);
+            const error = new Error('Aborted during retry delay');
+            error.name = 'AbortError';
+            reject(error);
+        };
+        const timeout = setTimeout(() => {
+            abortSignal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, delayMs);
+        abortSignal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,130 @@
+import { expect } from 'chai';
+import { Profile } from '../../types';
+import {
+    PROFILE_BUNDLE_VERSION,
+    createProfileBundle,
+    findDuplicateProfile,
+    parseProfileBundle,
+    uniqueProfileName
+} from '../profileBundle';
+
+suite('profileBundle', () => {
+    const profile: Profile = {
+        id: 'profile-id',
+        name: 'Team OpenRouter',
+        provider: 'openrouter',
+        baseURL: 'https://openrouter.ai/api/v1',
+        modelId: 'mistralai/codestral-2501',
+        candidates: 2,
+        generation: { temperature: 0.2, maxOutputTokens: 128 },
+        contextBudget: { maxTokens: 4000, prefixRatio: 0.75 }
+    };
+
+    suite('createProfileBundle', () => {
+        test('should export profile settings without IDs', () => {
+            const bundle = createProfileBundle([profile]);
+
+            expect(bundle.version).to.equal(PROFILE_BUNDLE_VERSION);
+            expect(bundle.profiles).to.have.length(1);
+            expect(bundle.profiles[0]).to.not.have.property('id');
+            expect(bundle.profiles[0]).to.include({ name: 'Team OpenRouter', candidates: 2 });
+            expect(bundle.profiles[0].generation).to.deep.equal({ temperature: 0.2, maxOutputTokens: 128 });
+            expect(bundle.profiles[0].contextBudget).to.deep.equal({ maxTokens: 4000, prefixRatio: 0.75 });
+        });
+
+        test('should never export API keys', () => {
+            const bundle = createProfileBundle([{ ...profile, apiKey: 'sk-secret' } as Profile]);
+
+            expect(JSON.stringify(bundle)).to.not.include('sk-secret');
+        });
+    });
+
+    suite('parseProfileBundle', () => {
+        test('should parse an exported bundle', () => {
+            const bundle = parseProfileBundle(JSON.stringify(createProfileBundle([profile])));
+
+            expect(bundle.profiles[0]).to.deep.equal(createProfileBundle([profile]).profiles[0]);
+        });
+
+        test('should drop IDs and API keys of imported profiles', () => {
+            const content = JSON.stringify({
+                version: 1,
+                profiles: [{ ...profile, apiKey: 'sk-secret' }]
+            });
+
+            const imported = parseProfileBundle(content).profiles[0];
+            expect(imported).to.not.have.property('id');
+            expect(imported).to.not.have.property('apiKey');
+        });
+
+        test('should reject invalid JSON', () => {
+            expect(() => parseProfileBundle('{')).to.throw('not valid JSON');
+        });
+
+        test('should reject files which are not bundles', () => {
+            expect(() => parseProfileBundle('{"profiles": {}}')).to.throw('not a TabCoder profile bundle');
+        });
+
+        test('should reject newer bundle versions', () => {
+            const content = JSON.stringify({ version: PROFILE_BUNDLE_VERSION + 1, profiles: [] });
+
+            expect(() => parseProfileBundle(content)).to.throw('Unsupported profile bundle version');
+        });
+
+        test('should reject profiles with missing fields', () => {
+            const content = JSON.stringify({ version: 1, profiles: [{ ...profile, modelId: '' }] });
+
+            expect(() => parseProfileBundle(content)).to.throw('Profile 1 has no modelId');
+        });
+
+        test('should reject invalid generation parameters', () => {
+            const content = JSON.stringify({ version: 1, profiles: [{ ...profile, generation: { topP: 2 } }] });
+
+            expect(() => parseProfileBundle(content)).to.throw('invalid generation parameters');
+        });
+
+        test('should reject generation parameters of the wrong type', () => {
+            const content = JSON.stringify({ version: 1, profiles: [{ ...profile, generation: { stopSequences: 'END' } }] });
+
+            expect(() => parseProfileBundle(content)).to.throw('invalid generation parameters');
+        });
+
+        test('should reject optional fields of the wrong type', () => {
+            const content = JSON.stringify({ version: 1, profiles: [{ ...profile, fimMode: 'unknown' }] });
+
+            expect(() => parseProfileBundle(content)).to.throw('invalid fimMode');
+        });
+
+        test('should reject unknown providers', () => {
+            const content = JSON.stringify({ version: 1, profiles: [{ ...profile, provider: 'unknown' }] });
+
+            expect(() => parseProfileBundle(content)).to.throw('unknown provider');
+        });
+    });
+
+    suite('findDuplicateProfile', () => {
+        test('should find profiles with the same name, provider and base URL', () => {
+            const imported = { ...createProfileBundle([profile]).profiles[0], name: 'team openrouter', baseURL: 'https://openrouter.ai/api/v1/' };
+
+            expect(findDuplicateProfile(imported, [profile])).to.equal(profile);
+        });
+
+        test('should not consider profiles of another provider as duplicates', () => {
+            const imported = { ...createProfileBundle([profile]).profiles[0], provider: 'openai' as const };
+
+            expect(findDuplicateProfile(imported, [profile])).to.be.undefined;
+        });
+    });
+
+    suite('uniqueProfileName', () => {
+        test('should keep unused names', () => {
+            expect(uniqueProfileName('Local Ollama', [profile])).to.equal('Local Ollama');
+        });
+
+        test('should number names already in use', () => {
+            const existing = [profile, { ...profile, id: 'other', name: 'Team OpenRouter (2)' }];
+
+            expect(uniqueProfileName('Team OpenRouter', existing)).to.equal('Team OpenRouter (3)');
+        });
+    });
+});
@@ -0,0 +1,178 @@
+import { ContextBudget, FimMode, GenerationParams, Profile, ProviderID } from '../types';
+import { providers } from '../providers/providers';
+import { validateGenerationParams } from '../providers/generation';
+
+export const PROFILE_BUNDLE_VERSION = 1;
+
+// A profile as shared in a bundle: IDs are generated on import, API keys are never exported.
+export type BundledProfile = Omit<Profile, 'id'>;
+
+export type ProfileBundle = {
+    version: number;
+    profiles: BundledProfile[];
+}
+
+/**
+ * Create a bundle of the given profiles, with all their settings but without IDs and API keys.
+ */
+export function createProfileBundle(profiles: Profile[]): ProfileBundle {
+    return {
+        version: PROFILE_BUNDLE_VERSION,
+        profiles: profiles.map(profile => {
+            // Profiles read from the settings never have API keys, but stay on the safe side.
+            const { id: _id, apiKey: _apiKey, ...bundled } = profile as Profile & { apiKey?: string };
+            return bundled;
+        }),
+    };
+}
+
+const FIM_MODES: readonly FimMode[] = ['chat', 'suffix', 'starcoder', 'codellama', 'deepseek', 'qwen'];
+
+/**
+ * Parse and validate the content of a bundle file.
+ */
+export function parseProfileBundle(content: string): ProfileBundle {
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch {
+        throw new Error('The file is not valid JSON');
+    }
+
+    if (!isRecord(data) || !Array.isArray(data.profiles)) {
+        throw new Error('The file is not a TabCoder profile bundle');
+    }
+    if (typeof data.version !== 'number' || data.version > PROFILE_BUNDLE_VERSION) {
+        throw new Error(`Unsupported profile bundle version: ${String(data.version)}`);
+    }
+
+    return { version: data.version, profiles: data.profiles.map(parseBundledProfile) };
+}
+
+// IDs and API keys of imported profiles are dropped, like any unknown field.
+function parseBundledProfile(profile: unknown, i: number): BundledProfile {
+    if (!isRecord(profile)) {
+        throw new Error(`Profile ${i + 1} is not an object`);
+    }
+    const requiredString = (field: string): string => {
+        const value = profile[field];
+        if (!isNonEmptyString(value)) {
+            throw new Error(`Profile ${i + 1} has no ${field}`);
+        }
+        return value;
+    };
+    const name = requiredString('name');
+    const provider = requiredString('provider');
+    const baseURL = requiredString('baseURL');
+    const modelId = requiredString('modelId');
+    if (!isProviderID(provider)) {
+        throw new Error(`Profile "${name}" uses an unknown provider: ${provider}`);
+    }
+
+    const bundled: BundledProfile = { name, provider, baseURL, modelId };
+    const invalid = (field: string) => new Error(`Profile "${name}" has an invalid ${field}`);
+    if (profile.fimMode !== undefined) {
+        if (!isFimMode(profile.fimMode)) {
+            throw invalid('fimMode');
+        }
+        bundled.fimMode = profile.fimMode;
+    }
+    if (profile.promptTemplate !== undefined) {
+        if (typeof profile.promptTemplate !== 'string') {
+            throw invalid('promptTemplate');
+        }
+        bundled.promptTemplate = profile.promptTemplate;
+    }
+    if (profile.contextBudget !== undefined) {
+        if (!isContextBudget(profile.contextBudget)) {
+            throw invalid('contextBudget');
+        }
+        bundled.contextBudget = profile.contextBudget;
+    }
+    for (const field of ['candidates', 'timeoutMs'] as const) {
+        const value = profile[field];
+        if (value !== undefined) {
+            if (typeof value !== 'number') {
+                throw invalid(field);
+            }
+            bundled[field] = value;
+        }
+    }
+    if (profile.apiVersion !== undefined) {
+        if (typeof profile.apiVersion !== 'string') {
+            throw invalid('apiVersion');
+        }
+        bundled.apiVersion = profile.apiVersion;
+    }
+    if (profile.generation !== undefined) {
+        const generation = profile.generation;
+        if (!isGenerationParams(generation)) {
+            throw new Error(`Profile "${name}" has invalid generation parameters: values must be of the expected types`);
+        }
+        const errors = validateGenerationParams(provider, generation);
+        if (errors.length > 0) {
+            throw new Error(`Profile "${name}" has invalid generation parameters: ${errors.join(', ')}`);
+        }
+        bundled.generation = generation;
+    }
+    return bundled;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isProviderID(value: unknown): value is ProviderID {
+    return providers.some(provider => provider.id === value);
+}
+
+function isFimMode(value: unknown): value is FimMode {
+    return FIM_MODES.some(mode => mode === value);
+}
+
+function isContextBudget(value: unknown): value is ContextBudget {
+    return isRecord(value) && typeof value.maxTokens === 'number' && typeof value.prefixRatio === 'number';
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+    return isRecord(value) && Object.values(value).every(item => typeof item === 'string');
+}
+
+function isGenerationParams(value: unknown): value is GenerationParams {
+    return isRecord(value) &&
+        ['temperature', 'maxOutputTokens', 'topP'].every(field => value[field] === undefined || typeof value[field] === 'number') &&
+        (value.stopSequences === undefined || (Array.isArray(value.stopSequences) && value.stopSequences.every(item => typeof item === 'string'))) &&
+        (value.headers === undefined || isStringRecord(value.headers)) &&
+        (value.extraBody === undefined || isRecord(value.extraBody));
+}
+
+/**
+ * Existing profile duplicated by an imported one: same name, provider and base URL.
+ */
+export function findDuplicateProfile(profile: BundledProfile, existingProfiles: Profile[]): Profile | undefined {
+    return existingProfiles.find(existing =>
+        existing.name.trim().toLowerCase() === profile.name.trim().toLowerCase() &&
+        existing.provider === profile.provider &&
+        normalizeBaseURL(existing.baseURL) === normalizeBaseURL(profile.baseURL)
+    );
+}
+
+/**
+ * Name not used by the existing profiles, the given one or the first free "name (n)".
+ */
+export function uniqueProfileName(name: string, existingProfiles: Profile[]): string {
+    const usedNames = new Set(existingProfiles.map(profile => profile.name.trim().toLowerCase()));
+    let uniqueName = name.trim();
+    for (let n = 2; usedNames.has(uniqueName.toLowerCase()); n++) {
+        uniqueName = `${name.trim()} (${n})`;
+    }
+    return uniqueName;
+}
+
+function normalizeBaseURL(baseURL: string): string {
+    return baseURL.trim().replace(/\/+$/, '').toLowerCase();
+}
@@ -3,6 +3,14 @@ import {v4 as uuidv4} from 'uuid';
 import { Profile, ProfileWithAPIKey } from '../types';
 import { ConfigurationProvider } from '../vscode/configProvider';
 import { logger } from '../utils/logger';
+import { requiresApiKey } from '../providers/providers';
+
+// Scopes where profiles can be defined, from the least to the most specific.
+const PROFILE_SCOPES = [
+    vscode.ConfigurationTarget.Global,
+    vscode.ConfigurationTarget.Workspace,
+    vscode.ConfigurationTarget.WorkspaceFolder,
+];
 
 export class ProfileService {
     private context: vscode.ExtensionContext;
@@ -48,18 +56,17 @@ export class ProfileService {
     }
 
     /**
-     * Create a new profile with API key
+     * Create a new profile with API key, saved in the settings of the given scope
      */
     public async createProfile(
-        profileData: ProfileWithAPIKey
+        profileData: ProfileWithAPIKey,
+        target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global,
+        resource: vscode.Uri | undefined = activeResource()
     ): Promise<Profile> {
-        const currentConfig = this.configProvider.getConfiguration();
+        const { apiKey: _apiKey, ...profileFields } = profileData;
         const newProfile: Profile = {
+            ...profileFields,
             id: this.generateProfileId(),
-            name: profileData.name,
-            provider: profileData.provider,
-            baseURL: profileData.baseURL,
-            modelId: profileData.modelId
         };
 
         // Store API key securely
@@ -67,61 +74,66 @@ export class ProfileService {
             await this.setApiKey(newProfile.id, profileData.apiKey);
         }
 
-        const updatedProfiles = [...currentConfig.profiles, newProfile];
+        const updatedProfiles = [...this.profilesAt(target, resource), newProfile];
 
         // Update configuration
-        await this.configProvider.saveConfiguration({
-            ...currentConfig,
-            profiles: updatedProfiles
-        });
+        await this.configProvider.saveConfiguration({ profiles: updatedProfiles }, target, resource);
 
         return newProfile;
     }
 
     /**
-     * Delete a profile and its API key
+     * Delete a profile and its API key, from every scope defining it
      */
-    public async deleteProfile(profileId: string): Promise<void> {
-        const currentConfig = this.configProvider.getConfiguration();
-        
+    public async deleteProfile(
+        profileId: string,
+        resource: vscode.Uri | undefined = activeResource()
+    ): Promise<void> {
         await this.deleteApiKey(profileId);
 
-        const updatedProfiles = currentConfig.profiles.filter(p => p.id !== profileId);
+        for (const target of PROFILE_SCOPES) {
+            const profiles = this.profilesAt(target, resource);
+            if (profiles.some(p => p.id === profileId)) {
+                await this.configProvider.saveConfiguration({
+                    profiles: profiles.filter(p => p.id !== profileId)
+                }, target, resource);
+            }
+        }
 
-        // Update configuration
-        await this.configProvider.saveConfiguration({
-            ...currentConfig,
-            profiles: updatedProfiles,
-        });
-
-        // If the deleted profile was the active one, clear the active profile
-        const activeProfileStillExists = updatedProfiles.some(p => p.id === currentConfig.activeProfileId);
-        if (!activeProfileStillExists) {
-            this.setActiveProfileId(undefined);
+        // Clear the active profile of the scopes where the deleted profile was the active one
+        let activeProfileCleared = false;
+        for (const target of PROFILE_SCOPES) {
+            if (this.configProvider.getScopedValue<string>('activeProfileId', target, resource) === profileId) {
+                await this.configProvider.saveConfiguration({ activeProfileId: undefined }, target, resource);
+                activeProfileCleared = true;
+            }
+        }
+        if (activeProfileCleared) {
+            this._onDidActiveProfileChange.fire();
         }
     }
 
     /**
-     * Update an existing profile
+     * Update an existing profile, in the scope it is used from.
+     * Editing the active profile fires onDidActiveProfileChange.
      */
     public async updateProfile(
         profileId: string,
-        profileData: ProfileWithAPIKey
+        profileData: ProfileWithAPIKey,
+        resource: vscode.Uri | undefined = activeResource()
     ): Promise<Profile> {
-        const currentConfig = this.configProvider.getConfiguration();
-        const profileIndex = currentConfig.profiles.findIndex(p => p.id === profileId);
-        
-        if (profileIndex === -1) {
+        const target = this.getProfileScope(profileId, resource);
+        if (target === undefined) {
             throw new Error('Profile not found');
         }
 
-        const updatedProfiles = [...currentConfig.profiles];
+        const updatedProfiles = [...this.profilesAt(target, resource)];
+        const profileIndex = updatedProfiles.findIndex(p => p.id === profileId);
+        const { apiKey: _apiKey, ...profileFields } = profileData;
         updatedProfiles[profileIndex] = {
             ...updatedProfiles[profileIndex],
-            name: profileData.name,
-            provider: profileData.provider,
-            baseURL: profileData.baseURL,
-            modelId: profileData.modelId
+            ...profileFields,
+            id: profileId,
         };
 
         // Update API key if provided
@@ -130,58 +142,130 @@ export class ProfileService {
         }
 
         // Update configuration
-        await this.configProvider.saveConfiguration({
-            ...currentConfig,
-            profiles: updatedProfiles
-        });
+        await this.configProvider.saveConfiguration({ profiles: updatedProfiles }, target, resource);
+
+        if (this.configProvider.getConfiguration(resource).activeProfileId === profileId) {
+            this._onDidActiveProfileChange.fire();
+        }
 
         return updatedProfiles[profileIndex];
     }
 
     /**
-     * Get active profile with API key
+     * Get active profile with API key, for the given file when profiles differ per workspace folder
      */
-    public async getActiveProfile(): Promise<ProfileWithAPIKey | undefined> {
-        const config = this.configProvider.getConfiguration();
-        const { profiles, activeProfileId } = config;
+    public async getActiveProfile(
+        resource: vscode.Uri | undefined = activeResource()
+    ): Promise<ProfileWithAPIKey | undefined> {
+        const { activeProfileId } = this.configProvider.getConfiguration(resource);
         
         if (!activeProfileId) {
             return undefined;
         }
 
-        const activeProfile = profiles.find(p => p.id === activeProfileId);
+        const activeProfile = this.listProfiles(resource).find(p => p.id === activeProfileId);
         if (!activeProfile) {
             return undefined;
         }
 
-        // Get API key securely
-        const apiKey = await this.getApiKey(activeProfile.id);
-        if (!apiKey && activeProfile.provider !== 'ollama') {
-            return undefined;
+        return this.withApiKey(activeProfile);
+    }
+
+    /**
+     * Get the active profile followed by the fallback profiles, with their API keys.
+     * Unknown fallback profiles and profiles missing an API key are left out.
+     */
+    public async getProfileChain(
+        resource: vscode.Uri | undefined = activeResource()
+    ): Promise<ProfileWithAPIKey[]> {
+        const activeProfile = await this.getActiveProfile(resource);
+        if (!activeProfile) {
+            return [];
         }
 
-        return {
-            ...activeProfile,
-            apiKey: apiKey ?? "",
-        };
+        const profiles = this.listProfiles(resource);
+        const chain = [activeProfile];
+        for (const profileId of this.configProvider.getConfiguration(resource).fallback.profileIds) {
+            const profile = profiles.find(p => p.id === profileId);
+            if (!profile || chain.some(p => p.id === profileId)) {
+                continue;
+            }
+            const profileWithApiKey = await this.withApiKey(profile);
+            if (profileWithApiKey) {
+                chain.push(profileWithApiKey);
+            }
+        }
+        return chain;
     }
 
     /**
-     * Set the active profile ID
+     * Set the active profile ID in the settings of the given scope
      */
-    public async setActiveProfileId(profileId: string | undefined): Promise<void> {
-        const currentConfig = this.configProvider.getConfiguration();
-        await this.configProvider.saveConfiguration({
-            ...currentConfig,
-            activeProfileId: profileId
-        });
+    public async setActiveProfileId(
+        profileId: string | undefined,
+        target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global,
+        resource: vscode.Uri | undefined = activeResource()
+    ): Promise<void> {
+        // An empty ID disables TabCoder in a workspace even if a user profile is active.
+        const activeProfileId = profileId ?? (target === vscode.ConfigurationTarget.Global ? undefined : '');
+        await this.configProvider.saveConfiguration({ activeProfileId }, target, resource);
         this._onDidActiveProfileChange.fire();
     }
 
     /**
-     * List all profiles
+     * List all profiles: user profiles, then workspace and workspace folder ones.
+     * API keys are stored by profile ID, so a workspace profile reusing the ID of
+     * a broader one is ignored: it would send that profile's key to its own host.
      */
-    public listProfiles(): Profile[] {
-        return this.configProvider.getConfiguration().profiles;
+    public listProfiles(resource: vscode.Uri | undefined = activeResource()): Profile[] {
+        const profiles: Map<string, Profile> = new Map();
+        for (const target of PROFILE_SCOPES) {
+            for (const profile of this.profilesAt(target, resource)) {
+                if (profiles.has(profile.id)) {
+                    logger.warn(`Ignoring profile ${profile.name} of the ${vscode.ConfigurationTarget[target]} settings, its ID is already used by profile ${profiles.get(profile.id)!.name}`);
+                    continue;
+                }
+                profiles.set(profile.id, profile);
+            }
+        }
+        return [...profiles.values()];
+    }
+
+    /**
+     * Least specific scope defining the profile, the one it is used from
+     */
+    public getProfileScope(
+        profileId: string,
+        resource: vscode.Uri | undefined = activeResource()
+    ): vscode.ConfigurationTarget | undefined {
+        return PROFILE_SCOPES.find(target =>
+            this.profilesAt(target, resource).some(p => p.id === profileId)
+        );
+    }
+
+    // Profiles of providers requiring an API key are unusable without one.
+    private async withApiKey(profile: Profile): Promise<ProfileWithAPIKey | undefined> {
+        const apiKey = await this.getApiKey(profile.id);
+        if (!apiKey && requiresApiKey(profile.provider)) {
+            return undefined;
+        }
+
+        return {
+            ...profile,
+            apiKey: apiKey ?? "",
+        };
     }
-}
\ No newline at end of file
+
+    private profilesAt(target: vscode.ConfigurationTarget, resource: vscode.Uri | undefined): Profile[] {
+        // Profiles are restricted settings: inspect() still returns the workspace ones of untrusted workspaces.
+        if (target !== vscode.ConfigurationTarget.Global && !vscode.workspace.isTrusted) {
+            return [];
+        }
+        return this.configProvider.getScopedValue<Profile[]>('profiles', target, resource) ?? [];
+    }
+}
+
+// Profiles are resolved for the file of the active editor by default.
+function activeResource(): vscode.Uri | undefined {
+    return vscode.window.activeTextEditor?.document.uri;
+}
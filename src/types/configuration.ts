@@ -1,7 +1,83 @@
 import { Profile } from "./profile";
+import { PromptTemplate } from "./promptTemplate";
+
+// Snippets from other open or recently edited files added to the prompt.
+export interface CrossFileContextSettings {
+  enabled: boolean;
+  maxSnippets: number;
+  snippetLines: number;
+}
+
+// Signatures of the symbols imported by the current file added to the prompt.
+export interface ImportContextSettings {
+  enabled: boolean;
+  maxDefinitions: number;
+}
+
+// Files ignored by .tabcoderignore files, and optionally .gitignore files.
+export interface IgnoreSettings {
+  useGitignore: boolean;
+}
+
+// Profiles used in order when the active profile fails.
+export interface FallbackSettings {
+  profileIds: string[];
+  // Consecutive failures after which a profile is skipped for the cool-down period.
+  failureThreshold: number;
+  cooldownSeconds: number;
+}
+
+// Periodic connection test of the active profile.
+export interface HealthCheckSettings {
+  // Minutes between checks, 0 disables them.
+  intervalMinutes: number;
+}
+
+// Secrets replaced by placeholders before prompts are sent to the model.
+export interface RedactionSettings {
+  enabled: boolean;
+  // Whether completions using placeholders get the secrets back or are dropped.
+  outputMode: 'restore' | 'block';
+  // Additional regular expressions matching secrets.
+  patterns: string[];
+}
+
+// When completions are requested: as the user types, or only when invoked with a keybinding.
+export type TriggerMode = 'automatic' | 'manual';
+
+// Trigger settings which can be overridden per language.
+export interface LanguageTriggerSettings {
+  mode: TriggerMode;
+  debounceMs: number;
+  // Lengthen the debounce when completions are rejected, shorten it when the provider is fast.
+  adaptiveDebounce: boolean;
+  // Requests following the previous change by less than this are skipped (fast typing, pastes).
+  rapidChangeWindowMs: number;
+  // Lines longer than this are likely pasted content, no completion is requested.
+  maxLineLength: number;
+  // Skip requests when the cursor is in the middle of a word.
+  skipMidWord: boolean;
+}
+
+export interface TriggerSettings extends LanguageTriggerSettings {
+  // Settings overridden per language ID.
+  languageOverrides: Record<string, Partial<LanguageTriggerSettings>>;
+}
 
 // Generic configuration interface that can hold any configuration data.
 export interface Configuration {
   profiles: Profile[];
   activeProfileId?: string;
+  promptTemplates: PromptTemplate[];
+  crossFileContext: CrossFileContextSettings;
+  importContext: ImportContextSettings;
+  trigger: TriggerSettings;
+  // Whether completions are enabled per language ID, '*' applying to other languages.
+  enable: Record<string, boolean>;
+  // Globs of files which are never completed nor sent as context.
+  exclude: string[];
+  redaction: RedactionSettings;
+  ignore: IgnoreSettings;
+  healthCheck: HealthCheckSettings;
+  fallback: FallbackSettings;
 }
\ No newline at end of file
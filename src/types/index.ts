@@ -1,4 +1,5 @@
 export * from './configuration';
 export * from './model';
 export * from './profile';
+export * from './promptTemplate';
 export * from './provider';
\ No newline at end of file
@@ -1,4 +1,22 @@
+// Price of a model in USD per million tokens.
+export type ModelPricing = {
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+// Metadata fields are only set when the provider exposes them.
 export type Model = {
     id: string;
     name: string;
-}
\ No newline at end of file
+    // Maximum number of tokens of the prompt and completion.
+    contextLength?: number;
+    // Number of parameters, e.g. "7.6B".
+    parameterSize?: string;
+    // Quantization level of local models, e.g. "Q4_K_M".
+    quantization?: string;
+    // Download size of local models.
+    sizeBytes?: number;
+    pricing?: ModelPricing;
+    // Whether the model can fill the middle between a prefix and a suffix.
+    supportsFim?: boolean;
+}
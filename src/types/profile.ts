@@ -1,11 +1,52 @@
 import { ProviderID } from "./provider";
 
+// How completions are requested from providers supporting raw prompts (Ollama,
+// llama.cpp, LM Studio):
+// - 'chat' uses the chat model with the hole filler prompt,
+// - 'suffix' sends the prefix and suffix and lets the model template format them
+//   (the default of llama.cpp, using /infill),
+// - other values build a raw prompt using the model-specific FIM tokens.
+export type FimMode = 'chat' | 'suffix' | 'starcoder' | 'codellama' | 'deepseek' | 'qwen';
+
+// Maximum size of the file context sent with each request, split between
+// the text before the cursor (prefixRatio) and the text after it.
+export type ContextBudget = {
+  maxTokens: number;
+  prefixRatio: number;
+}
+
+// Settings of each completion request, unset ones use the provider defaults.
+export type SamplingSettings = {
+  temperature?: number;
+  maxOutputTokens?: number;
+  topP?: number;
+  stopSequences?: string[];
+}
+
+export type GenerationParams = SamplingSettings & {
+  // HTTP headers added to each request.
+  headers?: Record<string, string>;
+  // Provider-specific fields added to the request body (model options for Ollama).
+  extraBody?: Record<string, unknown>;
+}
+
 export type Profile = {
   id: string;
   name: string;
   provider: ProviderID;
   baseURL: string;
   modelId: string;
+  fimMode?: FimMode;
+  // ID of the prompt template used with chat models, see HoleFillerRegistry.
+  promptTemplate?: string;
+  contextBudget?: ContextBudget;
+  // Number of completions requested in parallel, shown as alternatives (default 1).
+  candidates?: number;
+  generation?: GenerationParams;
+  // Time limit of each completion request attempt (default 10000).
+  timeoutMs?: number;
+  // API version of Azure OpenAI requests (default 2024-10-21).
+  apiVersion?: string;
 }
 
 export type ProfileWithAPIKey = Profile & { apiKey: string };
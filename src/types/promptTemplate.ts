@@ -0,0 +1,10 @@
+// User-defined prompt template, declared in the tabcoder.promptTemplates setting.
+// Prompts can use the {{prefix}}, {{suffix}}, {{filename}}, {{language}} and {{snippets}} placeholders.
+export type PromptTemplate = {
+  id: string;
+  systemPrompt?: string;
+  userPrompt: string;
+  // Regular expression matched against the profile model ID to select this template
+  // when the profile doesn't set one explicitly.
+  modelIdPattern?: string;
+}
@@ -1,36 +1,90 @@
 import * as vscode from 'vscode';
-import { HoleFiller, DefaultHoleFiller } from '../autocomplete/holeFiller';
+import { HoleFillerRegistry } from '../autocomplete/holeFillerRegistry';
+import { applyContextBudget, DEFAULT_CONTEXT_BUDGET, fitSnippets } from '../autocomplete/contextBudget';
+import { prefixWithSnippets } from '../autocomplete/snippets';
+import { CompletionCache } from '../autocomplete/completionCache';
+import { applyStopPolicies, createStopPolicies, StopPolicy } from '../autocomplete/stopPolicy';
+import { postProcess, uniqueCompletions } from '../autocomplete/postProcessing';
+import { resolveTriggerSettings, TriggerPolicy } from '../autocomplete/triggerPolicy';
 import { AutoCompleteContext } from '../autocomplete/context';
+import { BUILTIN_REDACTION_RULES, customRedactionRules, Redactor } from '../autocomplete/redaction';
 import { ProfileService } from '../services/profileService';
-import { getLanguageModelFromProfile } from '../providers/providers';
-import { generateText } from 'ai';
+import { FimModel, getFimModelFromProfile, getLanguageModelFromProfile } from '../providers/providers';
+import { samplingSettings } from '../providers/generation';
+import { CircuitBreaker, CircuitBreakerSettings } from '../providers/circuitBreaker';
+import { callWithRetry, DEFAULT_MAX_RETRIES, DEFAULT_REQUEST_TIMEOUT_MS, isCancellation, RequestCancelledError } from '../providers/retry';
+import { callWithFallback } from '../providers/fallback';
+import { describeProviderError } from '../providers/errors';
+import { streamText } from 'ai';
 import { TabCoderStatusBarProvider } from './statusBarProvider';
+import { ConfigurationProvider } from './configProvider';
+import { CrossFileContextProvider } from './crossFileContextProvider';
+import { ImportDefinitionProvider } from './importDefinitionProvider';
+import { EnablementProvider } from './enablementProvider';
+import { ProfileHealthMonitor } from './profileHealthMonitor';
 import { logger } from '../utils/logger';
 import { LanguageModelV2 } from '@ai-sdk/provider';
-import { ProfileWithAPIKey } from '../types';
+import { ContextBudget, LanguageTriggerSettings, ProfileWithAPIKey, PromptTemplate, SamplingSettings } from '../types';
+
+// Delay within which an invoked request is attributed to the trigger command.
+const MANUAL_TRIGGER_TIMEOUT_MS = 1000;
+
+// Options of the tabcoder.triggerCompletion command, passed as keybinding arguments.
+export type ManualTriggerOptions = {
+    // Allow multiline completions in the middle of a line.
+    multiline?: boolean;
+    // Factor applied to the context budget of the profile.
+    contextBudgetScale?: number;
+}
 
 export class TabCoderInlineCompletionProvider implements vscode.InlineCompletionItemProvider {
-    private holeFiller: HoleFiller = new DefaultHoleFiller();
     private profileService: ProfileService;
     private statusBarProvider: TabCoderStatusBarProvider;
+    private configProvider: ConfigurationProvider;
+    private holeFillerRegistry: HoleFillerRegistry;
+    private crossFileContextProvider: CrossFileContextProvider;
+    private importDefinitionProvider: ImportDefinitionProvider;
+    private enablementProvider: EnablementProvider;
+    private healthMonitor: ProfileHealthMonitor;
     private debounceTimeout: NodeJS.Timeout | undefined;
     private currentAbortController: AbortController | undefined;
 
     private lastUsedProfileId: string | undefined;
     private cachedModel: LanguageModelV2 | undefined;
+    private cachedFimModel: FimModel | undefined;
+    private completionCache: CompletionCache = new CompletionCache();
+    private triggerPolicy: TriggerPolicy = new TriggerPolicy();
+    private circuitBreaker: CircuitBreaker = new CircuitBreaker();
+    // Whether the last generated completion was shown and neither accepted nor rejected yet.
+    private pendingShownCompletion: boolean = false;
 
     private requestCounter: number = 0; // Unique ID for each request
-    private readonly debounceDelayMs: number = 300; // 300ms debounce delay
+    private pendingManualTrigger: { options: ManualTriggerOptions; timestamp: number } | undefined;
     private lastAcceptedCompletion: { text: string; position: vscode.Position; timestamp: number } | undefined;
     private lastDocumentVersion: number = -1;
     private lastChangeTimestamp: number = 0;
 
 
-    constructor(profileService: ProfileService, statusBarProvider: TabCoderStatusBarProvider) {
+    constructor(
+        profileService: ProfileService,
+        statusBarProvider: TabCoderStatusBarProvider,
+        configProvider: ConfigurationProvider,
+        holeFillerRegistry: HoleFillerRegistry,
+        crossFileContextProvider: CrossFileContextProvider,
+        importDefinitionProvider: ImportDefinitionProvider,
+        enablementProvider: EnablementProvider,
+        healthMonitor: ProfileHealthMonitor
+    ) {
         this.profileService = profileService;
         this.profileService.onDidActiveProfileChange(this.handleProfileChange, this);
 
         this.statusBarProvider = statusBarProvider;
+        this.configProvider = configProvider;
+        this.holeFillerRegistry = holeFillerRegistry;
+        this.crossFileContextProvider = crossFileContextProvider;
+        this.importDefinitionProvider = importDefinitionProvider;
+        this.enablementProvider = enablementProvider;
+        this.healthMonitor = healthMonitor;
     }
 
     async provideInlineCompletionItems(
@@ -39,8 +93,15 @@ export class TabCoderInlineCompletionProvider implements vscode.InlineCompletion
         context: vscode.InlineCompletionContext,
         token: vscode.CancellationToken
     ): Promise<vscode.InlineCompletionItem[] | vscode.InlineCompletionList> {
-        const profile = await this.profileService.getActiveProfile();
-        if (!profile) {
+        // Disabled languages, excluded and ignored files are never sent to the model.
+        await this.enablementProvider.ready();
+        if (!this.enablementProvider.isEnabled(document)) {
+            return [];
+        }
+
+        // The active profile, then the fallback profiles used when it fails.
+        const profiles = await this.profileService.getProfileChain(document.uri);
+        if (profiles.length === 0) {
             logger.info(`No active profile found, skipping completion`);
             return [];
         }
@@ -52,23 +113,36 @@ export class TabCoderInlineCompletionProvider implements vscode.InlineCompletion
         }
         const currentRequestId = ++this.requestCounter;
 
-        // Early filtering to avoid unnecessary LLM requests.
-        if (this.shouldSkipRequest(document, position, context)) {
-            logger.info(`Request ${currentRequestId} skipped due to filtering rules`);
+        // In manual mode, only the trigger command requests completions.
+        const trigger = resolveTriggerSettings(this.configProvider.getConfiguration().trigger, document.languageId);
+        const invoked = context.triggerKind === vscode.InlineCompletionTriggerKind.Invoke;
+        const manualTrigger = invoked ? this.takeManualTrigger() : undefined;
+        if (trigger.mode === 'manual' && !manualTrigger) {
             return [];
         }
 
-        // Cancel any existing timeout and abort controller
-        if (this.debounceTimeout) {
-            clearTimeout(this.debounceTimeout);
-            this.debounceTimeout = undefined;
+        // Serve cached completions immediately, including when the user typed the beginning of one.
+        // Completions requested with the trigger command are always generated.
+        if (!context.selectedCompletionInfo && !manualTrigger) {
+            const { textBeforeCursor, textAfterCursor } = this.getTextAroundCursor(document, position);
+            const servingProfileId = this.circuitBreaker.select(profiles.map(p => p.id), this.circuitBreakerSettings())[0];
+            const cached = servingProfileId && this.completionCache.get(servingProfileId, textBeforeCursor, textAfterCursor);
+            if (cached) {
+                this.cancelPendingRequest();
+                logger.info(`Request ${currentRequestId} served from completion cache`);
+                return new vscode.InlineCompletionList(cached.map(completion => this.createInlineCompletionItem(completion, position)));
+            }
         }
 
-        if (this.currentAbortController) {
-            this.currentAbortController.abort();
-            this.currentAbortController = undefined;
+        // Early filtering to avoid unnecessary LLM requests, explicit invocations are always served.
+        if (!invoked && this.shouldSkipRequest(document, position, context, trigger)) {
+            logger.info(`Request ${currentRequestId} skipped due to filtering rules`);
+            return [];
         }
 
+        // Cancel any existing timeout and abort controller
+        this.cancelPendingRequest();
+
         // Return empty result immediately if cancellation is already requested
         if (token.isCancellationRequested) {
             logger.info(`Request ${currentRequestId} already cancelled, returning empty result`);
@@ -76,6 +150,7 @@ export class TabCoderInlineCompletionProvider implements vscode.InlineCompletion
         }
 
         // Create a promise that resolves after the debounce delay
+        const debounceDelayMs = invoked ? 0 : this.triggerPolicy.debounceDelay(trigger);
         return new Promise((resolve) => {
             this.debounceTimeout = setTimeout(async () => {
                 try {
@@ -86,15 +161,24 @@ export class TabCoderInlineCompletionProvider implements vscode.InlineCompletion
                         return;
                     }
 
+                    // A new completion is requested while the previous one is still shown: it was rejected.
+                    if (this.pendingShownCompletion) {
+                        this.triggerPolicy.recordRejected();
+                        this.pendingShownCompletion = false;
+                    }
+
                     // Notify status bar that completion generation is starting.
                     this.statusBarProvider.onCompletionStart(currentRequestId);
                     
-                    const result = await this.generateCompletion(document, position, token, profile, currentRequestId);
+                    const startTime = Date.now();
+                    const result = await this.generateWithFallback(document, position, token, profiles, currentRequestId, manualTrigger?.options);
+                    this.triggerPolicy.recordLatency(Date.now() - startTime);
 
                     this.statusBarProvider.onCompletionEnd(currentRequestId);
 
                     // Final check if this is still the latest request before resolving
                     if (currentRequestId === this.requestCounter) {
+                        this.pendingShownCompletion = (Array.isArray(result) ? result : result.items).length > 0;
                         resolve(result);
                     } else {
                         logger.info(`Request ${currentRequestId} completed but superseded, discarding result`);
@@ -103,15 +187,15 @@ export class TabCoderInlineCompletionProvider implements vscode.InlineCompletion
                 } catch (error) {
                     this.statusBarProvider.onCompletionEnd(currentRequestId);
 
-                    if (error instanceof Error && error.name === 'AbortError') {
-                        logger.info(`Request ${currentRequestId} aborted during generation`);
+                    if (isCancellation(error)) {
+                        logger.info(`Request ${currentRequestId} aborted during generation: ${(error as Error).message}`);
                         resolve([]);
                     } else {
                         logger.error(`Error generating completion for request ${currentRequestId}:`, error);
                         resolve([]);
                     }
                 }
-            }, this.debounceDelayMs);
+            }, debounceDelayMs);
 
             // Handle cancellation during debounce period
             token.onCancellationRequested(() => {
@@ -133,7 +217,8 @@ export class TabCoderInlineCompletionProvider implements vscode.InlineCompletion
     private shouldSkipRequest(
         document: vscode.TextDocument,
         position: vscode.Position,
-        context: vscode.InlineCompletionContext
+        context: vscode.InlineCompletionContext,
+        trigger: LanguageTriggerSettings
     ): boolean {
         const currentTime = Date.now();
         const currentLine = document.lineAt(position.line);
@@ -181,17 +266,17 @@ export class TabCoderInlineCompletionProvider implements vscode.InlineCompletion
         // Skip if cursor is in the middle of a word (not at word boundary)
         const charAtCursor = currentLine.text.charAt(position.character);
         const charBeforeCursor = position.character > 0 ? currentLine.text.charAt(position.character - 1) : '';
-        if (charAtCursor && /\w/.test(charAtCursor) && /\w/.test(charBeforeCursor)) {
+        if (trigger.skipMidWord && charAtCursor && /\w/.test(charAtCursor) && /\w/.test(charBeforeCursor)) {
             return true;
         }
         
         // Skip if recent rapid changes (likely copy-paste or rapid typing)
-        if (currentTime - this.lastChangeTimestamp < 100) {
+        if (currentTime - this.lastChangeTimestamp < trigger.rapidChangeWindowMs) {
             return true;
         }
         
         // Skip if line is very long (likely pasted content)
-        if (currentLine.text.length > 200) {
+        if (currentLine.text.length > trigger.maxLineLength) {
             return true;
         }
         
@@ -201,38 +286,105 @@ export class TabCoderInlineCompletionProvider implements vscode.InlineCompletion
         return false;
     }
 
+    /**
+     * Generate the completion with the first profile of the chain that works.
+     * Profiles failing repeatedly are skipped during a cool-down period, see
+     * CircuitBreaker. The health of the active profile is reported as well.
+     */
+    private async generateWithFallback(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken,
+        profiles: ProfileWithAPIKey[],
+        requestId: number,
+        options: ManualTriggerOptions = {}
+    ): Promise<vscode.InlineCompletionItem[] | vscode.InlineCompletionList> {
+        const settings = this.circuitBreakerSettings();
+        const selectedIds = this.circuitBreaker.select(profiles.map(p => p.id), settings);
+        const selectedProfiles = profiles.filter(p => selectedIds.includes(p.id));
+        const activeProfile = profiles[0];
+
+        if (selectedProfiles.length === 0) {
+            const resumeAt = Math.min(...profiles.map(p => this.circuitBreaker.suspendedUntil(p.id) ?? Infinity));
+            logger.info(`Request ${requestId}: Completions suspended by rate limits for ${Math.ceil((resumeAt - Date.now()) / 1000)} s`);
+            return [];
+        }
+
+        // Cancelled requests throw an AbortError, which leaves the breaker, health and status bar untouched.
+        return callWithFallback(selectedProfiles, profile => this.generateCompletion(document, position, token, profile, requestId, options), {
+            circuitBreaker: this.circuitBreaker,
+            settings,
+            isStillValid: () => this.isRequestStillValid(requestId, token),
+            onSuccess: profile => {
+                if (profile.id === activeProfile.id) {
+                    this.healthMonitor.reportSuccess();
+                }
+                this.statusBarProvider.onCompletionServed(profile, activeProfile);
+            },
+            onFailure: (profile, error, providerError) => {
+                if (profile.id === activeProfile.id) {
+                    this.healthMonitor.reportFailure(error);
+                }
+                logger.warn(`Request ${requestId}: Profile ${profile.name} failed (${providerError.kind}): ${describeProviderError(providerError)}`);
+            },
+            onFallback: (profile, nextProfile) => logger.warn(`Request ${requestId}: Profile ${profile.name} failed, falling back to ${nextProfile.name}`),
+        });
+    }
+
+    private circuitBreakerSettings(): CircuitBreakerSettings {
+        const { failureThreshold, cooldownSeconds } = this.configProvider.getConfiguration().fallback;
+        return { failureThreshold, cooldownMs: cooldownSeconds * 1000 };
+    }
+
     private async generateCompletion(
         document: vscode.TextDocument,
         position: vscode.Position,
         token: vscode.CancellationToken,
         profile: ProfileWithAPIKey,
-        requestId: number
-    ): Promise<vscode.InlineCompletionItem[]> {
+        requestId: number,
+        options: ManualTriggerOptions = {}
+    ): Promise<vscode.InlineCompletionItem[] | vscode.InlineCompletionList> {
         // Check if this request is still the latest after generation
         if (!this.isRequestStillValid(requestId, token)) {
-            logger.info(`Request ${requestId} cancelled or superseded before generation, aborting`);
-            return [];
+            throw new RequestCancelledError(`Request ${requestId} cancelled or superseded before generation`);
         }
 
-        // Get all text before cursor in the file.
-        const textBeforeCursor = document.getText(new vscode.Range(
-            new vscode.Position(0, 0),
-            position
-        ));
-
-        // Get all text after cursor in the file.
-        const textAfterCursor = document.getText(new vscode.Range(
-            position,
-            new vscode.Position(document.lineCount - 1, document.lineAt(document.lineCount - 1).text.length)
-        ));
-
-        const params: AutoCompleteContext = {
-            textBeforeCursor,
-            textAfterCursor,
+        const { textBeforeCursor, textAfterCursor } = this.getTextAroundCursor(document, position);
+
+        // Secrets are replaced by placeholders before the context leaves the machine,
+        // and before it is truncated: a private key cut from its header isn't recognized.
+        const config = this.configProvider.getConfiguration();
+        const redactor = config.redaction.enabled
+            ? new Redactor([...BUILTIN_REDACTION_RULES, ...customRedactionRules(config.redaction.patterns)])
+            : undefined;
+        const redact = (text: string) => redactor ? redactor.redact(text) : text;
+
+        // Snippets of other files take their share of the budget first.
+        const importSnippets = await this.importDefinitionProvider.getSnippets(document, config.importContext);
+        const { snippets, budget } = fitSnippets([
+            ...importSnippets.map(snippet => ({ ...snippet, content: redact(snippet.content) })),
+            ...this.crossFileContextProvider.getSnippets(document, position, config.crossFileContext, redact),
+        ], this.contextBudget(profile, options));
+
+        const { context: params, truncation } = applyContextBudget({
+            textBeforeCursor: redact(textBeforeCursor),
+            textAfterCursor: redact(textAfterCursor),
             filename: document.fileName,
             language: document.languageId,
-            currentLineText: document.lineAt(position.line).text,
-        };
+            currentLineText: redact(document.lineAt(position.line).text),
+        }, budget);
+
+        if (truncation.prefixRemovedChars > 0 || truncation.suffixRemovedChars > 0) {
+            logger.info(`Request ${requestId}: Context truncated to fit budget, removed ${truncation.prefixRemovedChars} chars before cursor and ${truncation.suffixRemovedChars} chars after cursor`);
+        }
+        if (redactor && redactor.count > 0) {
+            logger.info(`Request ${requestId}: Redacted ${redactor.count} secrets from the context`);
+        }
+
+        params.snippets = snippets;
+        if (params.snippets.length > 0) {
+            logger.info(`Request ${requestId}: Adding ${params.snippets.length} snippets from other files: ${params.snippets.map(snippet => snippet.filename).join(', ')}`);
+        }
 
         logger.info(`Request ${requestId}: Using profile: ${profile.name} (ID: ${profile.id})`);
         logger.info(`Request ${requestId}: Completion params:`, params);
@@ -252,68 +404,262 @@ export class TabCoderInlineCompletionProvider implements vscode.InlineCompletion
             if (this.lastUsedProfileId !== profile.id || !this.cachedModel) {
                 logger.debug(`Request ${requestId}: Profile changed or model not cached, creating new model`);
                 this.cachedModel = getLanguageModelFromProfile(profile);
+                this.cachedFimModel = getFimModelFromProfile(profile);
                 this.lastUsedProfileId = profile.id;
             } else {
                 logger.debug(`Request ${requestId}: Using cached model for profile ${profile.id}`);
             }
 
-            const { text, usage } = await generateText({
-                model: this.cachedModel!,
-                messages: [
-                    { role: "system", content: this.holeFiller.systemPrompt() },
-                    { role: "user", content: this.holeFiller.userPrompt(params) },
-                ],
-                abortSignal: this.currentAbortController.signal,
+            const stopPolicies = createStopPolicies({
+                linePrefix: document.lineAt(position.line).text.slice(0, position.character),
+                lineSuffix: document.lineAt(position.line).text.slice(position.character),
+                multiline: options.multiline,
             });
 
+            // Candidates are requested in parallel, failed ones are dropped as long as one succeeds.
+            const candidateCount = Math.max(1, Math.floor(profile.candidates ?? 1));
+            const abortSignal = this.currentAbortController.signal;
+            // Each candidate has its own timeout, transient server errors are retried.
+            const results = await Promise.allSettled(Array.from({ length: candidateCount }, () =>
+                callWithRetry(
+                    signal => this.generateCandidate(profile, params, stopPolicies, config.promptTemplates, signal, requestId),
+                    {
+                        timeoutMs: profile.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+                        maxRetries: DEFAULT_MAX_RETRIES,
+                        abortSignal,
+                        onRetry: (attempt, delayMs, error) => logger.warn(`Request ${requestId}: ${describeProviderError(error)}, retry ${attempt} in ${delayMs} ms`),
+                    }
+                )
+            ));
+            const candidates = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+            if (candidates.length === 0) {
+                throw (results[0] as PromiseRejectedResult).reason;
+            }
+
+            const completions = uniqueCompletions(candidates.flatMap(candidate => {
+                const text = redactor ? redactor.restore(candidate.text, config.redaction.outputMode) : candidate.text;
+                if (text === undefined) {
+                    logger.info(`Request ${requestId}: Dropping a completion using redacted secrets`);
+                    return [];
+                }
+                return [postProcess(text, { textBeforeCursor, textAfterCursor })];
+            }));
+
             // Check if this request is still the latest after generation
             if (!this.isRequestStillValid(requestId, token)) {
-                logger.debug(`Request ${requestId} cancelled or superseded after generation, discarding result`);
-                return [];
+                throw new RequestCancelledError(`Request ${requestId} cancelled or superseded after generation`);
             }
 
-            if (!text) {
+            if (completions.length === 0) {
                 return [];
             }
 
-            let response = this.processModelResponse(text);
-            if (response.startsWith(params.currentLineText)) {
-                response = response.slice(params.currentLineText.length);
-            }
+            this.completionCache.set(profile.id, textBeforeCursor, textAfterCursor, completions);
 
-            const inlineCompletionItem = new vscode.InlineCompletionItem(response);
-            
-            // Track this completion for future filtering.
-            inlineCompletionItem.command = {
-                command: 'tabcoder.completionAccepted',
-                title: 'Track Completion',
-                arguments: [response, position]
-            };
-            
-            logger.debug(`Request ${requestId}: Providing inline suggestion: "${response}" (usage: ${usage.inputTokens} input / ${usage.outputTokens} output)`);
-            return [inlineCompletionItem];
+            const inputTokens = candidates.reduce((total, candidate) => total + (candidate.usage.inputTokens ?? 0), 0);
+            const outputTokens = candidates.reduce((total, candidate) => total + (candidate.usage.outputTokens ?? 0), 0);
+            logger.debug(`Request ${requestId}: Providing ${completions.length} inline suggestions: ${completions.map(completion => `"${completion}"`).join(', ')} (usage: ${inputTokens} input / ${outputTokens} output)`);
+
+            return new vscode.InlineCompletionList(completions.map(completion =>
+                this.createInlineCompletionItem(completion, position)
+            ));
             
         } catch (error) {
-            if (error instanceof Error && error.name === 'AbortError') {
-                logger.info(`Request ${requestId} aborted during generateText call`);
-            } else {
-                logger.error(`Request ${requestId} error during generateText call:`, error);
+            if (isCancellation(error)) {
+                throw error;
             }
-            return [];
+            logger.error(`Request ${requestId} error during completion call:`, error);
+            throw error;
         } finally {
             // Clean up the token listener
             tokenListener.dispose();
         }
     }
 
+    /**
+     * Generate one completion, with the native FIM endpoint of the profile if it has one.
+     */
+    private async generateCandidate(
+        profile: ProfileWithAPIKey,
+        params: AutoCompleteContext,
+        stopPolicies: StopPolicy[],
+        promptTemplates: PromptTemplate[],
+        abortSignal: AbortSignal,
+        requestId: number
+    ): Promise<{ text: string; usage: { inputTokens?: number; outputTokens?: number } }> {
+        const sampling = samplingSettings(profile.generation);
+
+        if (this.cachedFimModel) {
+            // Native FIM endpoints get the raw prefix and suffix, the hole filler prompt is not used.
+            const snippetsApart = this.cachedFimModel.supportsSnippets;
+            const result = await this.cachedFimModel.complete({
+                ...sampling,
+                prefix: snippetsApart ? params.textBeforeCursor : prefixWithSnippets(params),
+                suffix: params.textAfterCursor,
+                snippets: snippetsApart ? params.snippets : undefined,
+                abortSignal,
+            });
+            return { text: applyStopPolicies(result.text, stopPolicies).text, usage: result.usage };
+        }
+
+        const holeFiller = this.holeFillerRegistry.resolve(profile, promptTemplates);
+        const systemPrompt = holeFiller.systemPrompt();
+        const result = await this.streamCompletion(
+            systemPrompt || undefined,
+            holeFiller.userPrompt(params),
+            sampling,
+            stopPolicies,
+            abortSignal,
+            requestId
+        );
+        let text = result.text;
+        if (text.startsWith(params.currentLineText)) {
+            text = text.slice(params.currentLineText.length);
+        }
+        return { text, usage: result.usage };
+    }
+
+    /**
+     * Stream the completion and abort it as soon as a stop policy or the end
+     * of the completion tag cuts it. Each stream has its own controller so
+     * stopping one candidate doesn't abort the others.
+     */
+    private async streamCompletion(
+        system: string | undefined,
+        prompt: string,
+        sampling: SamplingSettings,
+        stopPolicies: StopPolicy[],
+        abortSignal: AbortSignal,
+        requestId: number
+    ): Promise<{ text: string; usage: { inputTokens?: number; outputTokens?: number } }> {
+        const streamController = new AbortController();
+        const abortStream = () => streamController.abort();
+        abortSignal.addEventListener('abort', abortStream);
+
+        try {
+            const result = streamText({
+                model: this.cachedModel!,
+                system,
+                prompt,
+                ...sampling,
+                // Retries are handled by callWithRetry.
+                maxRetries: 0,
+                abortSignal: streamController.signal,
+            });
+
+            let rawText = '';
+            for await (const part of result.fullStream) {
+                if (part.type === 'error') {
+                    throw part.error;
+                }
+                if (part.type !== 'text-delta') {
+                    continue;
+                }
+
+                rawText += part.text;
+                const closed = rawText.includes('</COMPLETION>');
+                const { text, stopped } = applyStopPolicies(this.processModelResponse(rawText), stopPolicies, closed);
+                if (closed || stopped) {
+                    logger.debug(`Request ${requestId}: Stop condition met after ${rawText.length} chars, aborting stream`);
+                    streamController.abort();
+                    return { text, usage: {} };
+                }
+            }
+
+            if (streamController.signal.aborted) {
+                throw new RequestCancelledError(`Request ${requestId} aborted`);
+            }
+
+            const text = applyStopPolicies(this.processModelResponse(rawText), stopPolicies).text;
+            return { text, usage: await result.usage };
+        } finally {
+            abortSignal.removeEventListener('abort', abortStream);
+        }
+    }
+
+    private getTextAroundCursor(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): { textBeforeCursor: string; textAfterCursor: string } {
+        // Get all text before cursor in the file.
+        const textBeforeCursor = document.getText(new vscode.Range(
+            new vscode.Position(0, 0),
+            position
+        ));
+
+        // Get all text after cursor in the file.
+        const textAfterCursor = document.getText(new vscode.Range(
+            position,
+            new vscode.Position(document.lineCount - 1, document.lineAt(document.lineCount - 1).text.length)
+        ));
+
+        return { textBeforeCursor, textAfterCursor };
+    }
+
+    private createInlineCompletionItem(text: string, position: vscode.Position): vscode.InlineCompletionItem {
+        const inlineCompletionItem = new vscode.InlineCompletionItem(text);
+
+        // Track this completion for future filtering.
+        inlineCompletionItem.command = {
+            command: 'tabcoder.completionAccepted',
+            title: 'Track Completion',
+            arguments: [text, position]
+        };
+
+        return inlineCompletionItem;
+    }
+
+    private cancelPendingRequest(): void {
+        if (this.debounceTimeout) {
+            clearTimeout(this.debounceTimeout);
+            this.debounceTimeout = undefined;
+        }
+
+        if (this.currentAbortController) {
+            this.currentAbortController.abort();
+            this.currentAbortController = undefined;
+        }
+    }
+
     private isRequestStillValid(requestId: number, token: vscode.CancellationToken): boolean {
         return requestId === this.requestCounter && !token.isCancellationRequested;
     }
 
+    /**
+     * Request a completion at the cursor of the active editor, bypassing the
+     * skip heuristics, the debounce delay and the trigger mode.
+     */
+    public async triggerCompletion(options: ManualTriggerOptions = {}): Promise<void> {
+        this.pendingManualTrigger = { options, timestamp: Date.now() };
+        await vscode.commands.executeCommand('editor.action.inlineSuggest.trigger');
+    }
+
+    // Options of the trigger command if it caused the current invoked request.
+    private takeManualTrigger(): { options: ManualTriggerOptions } | undefined {
+        const manualTrigger = this.pendingManualTrigger;
+        this.pendingManualTrigger = undefined;
+        if (!manualTrigger || Date.now() - manualTrigger.timestamp > MANUAL_TRIGGER_TIMEOUT_MS) {
+            return undefined;
+        }
+        return manualTrigger;
+    }
+
+    private contextBudget(profile: ProfileWithAPIKey, options: ManualTriggerOptions): ContextBudget {
+        const budget = { ...DEFAULT_CONTEXT_BUDGET, ...profile.contextBudget };
+        if (options.contextBudgetScale && options.contextBudgetScale > 0) {
+            budget.maxTokens = Math.round(budget.maxTokens * options.contextBudgetScale);
+        }
+        return budget;
+    }
+
     /**
      * Call this method when a completion is accepted to track it for future filtering
      */
     public onCompletionAccepted(text: string, position: vscode.Position): void {
+        if (this.pendingShownCompletion) {
+            this.triggerPolicy.recordAccepted();
+            this.pendingShownCompletion = false;
+        }
         this.lastAcceptedCompletion = {
             text,
             position,
@@ -335,6 +681,11 @@ export class TabCoderInlineCompletionProvider implements vscode.InlineCompletion
 
     private handleProfileChange(): void {
         this.cachedModel = undefined;
+        this.cachedFimModel = undefined;
+        this.completionCache.clear();
+        this.triggerPolicy.reset();
+        this.circuitBreaker.reset();
+        this.pendingShownCompletion = false;
         this.lastUsedProfileId = undefined;
         logger.info('Active profile changed, clearing cached model');
     }
@@ -1,43 +1,114 @@
 import * as vscode from 'vscode';
-import { Profile, Configuration } from '../types';
+import { Profile, Configuration, PromptTemplate, LanguageTriggerSettings, TriggerMode } from '../types';
 import { logger } from '../utils/logger';
+import { DEFAULT_ENABLED_LANGUAGES } from '../autocomplete/enablement';
+
+// Files which likely contain secrets.
+const DEFAULT_EXCLUDE = ['**/.env*', '**/secrets/**'];
 
 export class ConfigurationProvider {
   constructor() {}
 
-  public getConfiguration(): Configuration {
-    const config = vscode.workspace.getConfiguration('tabcoder');
+  /**
+   * Effective configuration, for the given file when settings differ per workspace folder.
+   */
+  public getConfiguration(resource?: vscode.Uri): Configuration {
+    const config = vscode.workspace.getConfiguration('tabcoder', resource);
 
     return {
       profiles: config.get<Profile[]>('profiles', []),
-      activeProfileId: config.get<string>('activeProfileId')
+      activeProfileId: config.get<string>('activeProfileId'),
+      promptTemplates: config.get<PromptTemplate[]>('promptTemplates', []),
+      crossFileContext: {
+        enabled: config.get<boolean>('crossFileContext.enabled', true),
+        maxSnippets: config.get<number>('crossFileContext.maxSnippets', 3),
+        snippetLines: config.get<number>('crossFileContext.snippetLines', 20)
+      },
+      importContext: {
+        enabled: config.get<boolean>('importContext.enabled', true),
+        maxDefinitions: config.get<number>('importContext.maxDefinitions', 10)
+      },
+      trigger: {
+        mode: config.get<TriggerMode>('trigger.mode', 'automatic'),
+        debounceMs: config.get<number>('trigger.debounceMs', 300),
+        adaptiveDebounce: config.get<boolean>('trigger.adaptiveDebounce', true),
+        rapidChangeWindowMs: config.get<number>('trigger.rapidChangeWindowMs', 100),
+        maxLineLength: config.get<number>('trigger.maxLineLength', 200),
+        skipMidWord: config.get<boolean>('trigger.skipMidWord', true),
+        languageOverrides: config.get<Record<string, Partial<LanguageTriggerSettings>>>('trigger.languageOverrides', {})
+      },
+      enable: config.get<Record<string, boolean>>('enable', DEFAULT_ENABLED_LANGUAGES),
+      exclude: config.get<string[]>('exclude', DEFAULT_EXCLUDE),
+      redaction: {
+        enabled: config.get<boolean>('redaction.enabled', true),
+        outputMode: config.get<'restore' | 'block'>('redaction.outputMode', 'restore'),
+        patterns: config.get<string[]>('redaction.patterns', [])
+      },
+      ignore: {
+        useGitignore: config.get<boolean>('ignore.useGitignore', true)
+      },
+      healthCheck: {
+        intervalMinutes: config.get<number>('healthCheck.intervalMinutes', 5)
+      },
+      fallback: {
+        profileIds: config.get<string[]>('fallback.profileIds', []),
+        failureThreshold: config.get<number>('fallback.failureThreshold', 3),
+        cooldownSeconds: config.get<number>('fallback.cooldownSeconds', 60)
+      }
     };
   }
 
-  public async saveConfiguration(partialConfig: Partial<Configuration>): Promise<void> {
-    logger.info(`Attempting to save configuration:`, { partialConfig });
+  /**
+   * Value of a setting defined at the given scope only, undefined if the scope doesn't define it.
+   */
+  public getScopedValue<T>(key: string, target: vscode.ConfigurationTarget, resource?: vscode.Uri): T | undefined {
+    const inspection = vscode.workspace.getConfiguration('tabcoder', resource).inspect<T>(key);
+    switch (target) {
+      case vscode.ConfigurationTarget.Global:
+        return inspection?.globalValue;
+      case vscode.ConfigurationTarget.Workspace:
+        return inspection?.workspaceValue;
+      case vscode.ConfigurationTarget.WorkspaceFolder:
+        return inspection?.workspaceFolderValue;
+    }
+  }
+
+  /**
+   * Save the given configuration items to user settings, or to the settings
+   * of the workspace or of the workspace folder of the resource.
+   */
+  public async saveConfiguration(
+    partialConfig: Partial<Configuration>,
+    target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global,
+    resource?: vscode.Uri
+  ): Promise<void> {
+    logger.info(`Attempting to save configuration:`, { partialConfig, target });
     
-    const currentConfig = this.getConfiguration();
-    const config = vscode.workspace.getConfiguration('tabcoder');
+    const currentConfig = this.getConfiguration(resource);
+    const config = vscode.workspace.getConfiguration('tabcoder', resource);
     
     // Merge the partial configuration with the current configuration
     const updatedConfig = { ...currentConfig, ...partialConfig };
     
     try {
-      // Save each configuration item to GLOBAL settings
-      logger.info(`Saving to global settings...`);
+      // Save each configuration item to the target settings
+      logger.info(`Saving to ${vscode.ConfigurationTarget[target]} settings...`);
       
       if (partialConfig.hasOwnProperty('profiles')) {
-        await config.update('profiles', updatedConfig.profiles, vscode.ConfigurationTarget.Global);
+        await config.update('profiles', updatedConfig.profiles, target);
       }
       
       if (partialConfig.hasOwnProperty('activeProfileId')) {
-        await config.update('activeProfileId', updatedConfig.activeProfileId, vscode.ConfigurationTarget.Global);
+        await config.update('activeProfileId', updatedConfig.activeProfileId, target);
+      }
+
+      if (partialConfig.hasOwnProperty('enable')) {
+        await config.update('enable', updatedConfig.enable, target);
       }
       
       // Add other configuration items here as they're added.
       // if (partialConfig.configItem !== undefined) {
-      //   await config.update('configItem', updatedConfig.configItem, vscode.ConfigurationTarget.Global);
+      //   await config.update('configItem', updatedConfig.configItem, target);
       // }
       
       logger.info(`Successfully saved configuration`);
@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import { CodeSnippet } from '../autocomplete/context';
+import { rankSnippets, SnippetSource } from '../autocomplete/snippets';
+import { CrossFileContextSettings } from '../types';
+import { EnablementProvider } from './enablementProvider';
+
+// Number of recently edited documents remembered.
+const MAX_RECENT_DOCUMENTS = 20;
+
+// Files larger than this are not used as context, they are likely generated.
+const MAX_DOCUMENT_LENGTH = 500_000;
+
+// Number of lines around the cursor compared to other files.
+const QUERY_LINES = 20;
+
+/**
+ * Collects snippets from open editors and recently edited files which are
+ * the most similar to the code around the cursor.
+ */
+export class CrossFileContextProvider implements vscode.Disposable {
+    private recentDocuments: string[] = [];
+    private disposables: vscode.Disposable[] = [];
+    private enablementProvider: EnablementProvider;
+
+    constructor(enablementProvider: EnablementProvider) {
+        this.enablementProvider = enablementProvider;
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.contentChanges.length > 0) {
+                    this.trackDocument(event.document);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                this.recentDocuments = this.recentDocuments.filter(uri => uri !== document.uri.toString());
+            })
+        );
+    }
+
+    // Sources are redacted before being cut into windows, which could separate
+    // a secret from the text identifying it.
+    public getSnippets(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        settings: CrossFileContextSettings,
+        redact: (text: string) => string = text => text
+    ): CodeSnippet[] {
+        if (!settings.enabled || settings.maxSnippets <= 0) {
+            return [];
+        }
+
+        const startLine = Math.max(0, position.line - QUERY_LINES);
+        const endLine = Math.min(document.lineCount - 1, position.line + Math.floor(QUERY_LINES / 4));
+        const query = document.getText(new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length));
+
+        return rankSnippets(query, this.candidateSources(document).map(source => ({ ...source, content: redact(source.content) })), {
+            maxSnippets: settings.maxSnippets,
+            windowLines: settings.snippetLines,
+        });
+    }
+
+    private candidateSources(current: vscode.TextDocument): SnippetSource[] {
+        const uris = new Set<string>(this.recentDocuments);
+        for (const group of vscode.window.tabGroups.all) {
+            for (const tab of group.tabs) {
+                if (tab.input instanceof vscode.TabInputText) {
+                    uris.add(tab.input.uri.toString());
+                }
+            }
+        }
+        uris.delete(current.uri.toString());
+
+        return vscode.workspace.textDocuments
+            .filter(document => uris.has(document.uri.toString()) && this.isUsable(document))
+            .map(document => ({
+                filename: vscode.workspace.asRelativePath(document.uri),
+                content: document.getText(),
+            }));
+    }
+
+    private isUsable(document: vscode.TextDocument): boolean {
+        return (document.uri.scheme === 'file' || document.uri.scheme === 'untitled') &&
+            document.getText().length <= MAX_DOCUMENT_LENGTH &&
+            !this.enablementProvider.isExcluded(document);
+    }
+
+    private trackDocument(document: vscode.TextDocument): void {
+        const uri = document.uri.toString();
+        this.recentDocuments = [uri, ...this.recentDocuments.filter(u => u !== uri)].slice(0, MAX_RECENT_DOCUMENTS);
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { isLanguageEnabled } from '../autocomplete/enablement';
+import { ConfigurationProvider } from './configProvider';
+import { IgnoreProvider } from './ignoreProvider';
+import { logger } from '../utils/logger';
+
+// Scopes where languages can be enabled, from the most to the least specific
+// (tabcoder.enable is a window setting, folders don't set it).
+const ENABLE_SCOPES = [
+    vscode.ConfigurationTarget.Workspace,
+    vscode.ConfigurationTarget.Global,
+];
+
+/**
+ * Decides which documents TabCoder may complete and send as context, from
+ * the tabcoder.enable language map, the tabcoder.exclude globs and the
+ * ignore files.
+ */
+export class EnablementProvider {
+    private configProvider: ConfigurationProvider;
+    private ignoreProvider: IgnoreProvider;
+
+    constructor(configProvider: ConfigurationProvider, ignoreProvider: IgnoreProvider) {
+        this.configProvider = configProvider;
+        this.ignoreProvider = ignoreProvider;
+    }
+
+    /**
+     * Resolves once the ignore files are loaded.
+     */
+    public ready(): Promise<void> {
+        return this.ignoreProvider.ready();
+    }
+
+    /**
+     * Fired when the ignore files are loaded or reloaded.
+     */
+    public get onDidChangeIgnoreRules(): vscode.Event<void> {
+        return this.ignoreProvider.onDidChangeRules;
+    }
+
+    /**
+     * Whether completions are requested in the document.
+     */
+    public isEnabled(document: vscode.TextDocument): boolean {
+        return this.isLanguageEnabled(document.languageId) && !this.isExcluded(document);
+    }
+
+    public isLanguageEnabled(languageId: string): boolean {
+        return isLanguageEnabled(this.configProvider.getConfiguration().enable, languageId);
+    }
+
+    /**
+     * Whether the document matches an exclusion glob or is ignored, its content must never be sent to the model.
+     */
+    public isExcluded(document: vscode.TextDocument): boolean {
+        return this.isIgnored(document) || this.configProvider.getConfiguration().exclude.some(pattern =>
+            vscode.languages.match({ pattern }, document) > 0
+        );
+    }
+
+    /**
+     * Whether the document is ignored by a .tabcoderignore or .gitignore file.
+     */
+    public isIgnored(document: vscode.TextDocument): boolean {
+        return document.uri.scheme === 'file' && this.ignoreProvider.isIgnored(document.uri);
+    }
+
+    /**
+     * Toggle completions for the language in the most specific scope setting
+     * it, or in the workspace settings when none does. Only the language is
+     * written: the values of other scopes don't leak into it.
+     */
+    public async toggleLanguage(
+        languageId: string,
+        resource: vscode.Uri | undefined = vscode.window.activeTextEditor?.document.uri
+    ): Promise<void> {
+        const { enable } = this.configProvider.getConfiguration(resource);
+        const enabled = !isLanguageEnabled(enable, languageId);
+
+        const openScope = vscode.workspace.workspaceFolders?.length
+            ? vscode.ConfigurationTarget.Workspace
+            : vscode.ConfigurationTarget.Global;
+        const target = ENABLE_SCOPES.find(scope =>
+            this.configProvider.getScopedValue<Record<string, boolean>>('enable', scope, resource)?.[languageId] !== undefined
+        ) ?? openScope;
+        const scoped = this.configProvider.getScopedValue<Record<string, boolean>>('enable', target, resource) ?? {};
+
+        await this.configProvider.saveConfiguration({ enable: { ...scoped, [languageId]: enabled } }, target, resource);
+        logger.info(`Completions ${enabled ? 'enabled' : 'disabled'} for ${languageId} in ${vscode.ConfigurationTarget[target]} settings`);
+    }
+}
@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+import { IgnoreRules } from '../autocomplete/ignore';
+import { ConfigurationProvider } from './configProvider';
+import { logger } from '../utils/logger';
+
+const TABCODER_IGNORE_FILE = '.tabcoderignore';
+const GIT_IGNORE_FILE = '.gitignore';
+
+// Ignore files are not searched in dependencies.
+const IGNORE_FILES_EXCLUDE = '**/node_modules/**';
+const MAX_IGNORE_FILES = 1000;
+
+type FolderRules = {
+    tabcoder: IgnoreRules;
+    git: IgnoreRules;
+}
+
+/**
+ * Loads the .tabcoderignore and .gitignore files of the workspace folders,
+ * and reloads them when they change.
+ */
+export class IgnoreProvider implements vscode.Disposable {
+    private configProvider: ConfigurationProvider;
+    private rulesByFolder: Map<string, FolderRules> = new Map();
+    private disposables: vscode.Disposable[] = [];
+    private loading: Promise<void>;
+    private reloadTimeout: NodeJS.Timeout | undefined;
+
+    // Fired when the ignore files are loaded or reloaded.
+    private _onDidChangeRules = new vscode.EventEmitter<void>();
+    public readonly onDidChangeRules = this._onDidChangeRules.event;
+
+    constructor(configProvider: ConfigurationProvider) {
+        this.configProvider = configProvider;
+
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/{${TABCODER_IGNORE_FILE},${GIT_IGNORE_FILE}}`);
+        this.disposables.push(
+            this._onDidChangeRules,
+            watcher,
+            watcher.onDidCreate(() => this.scheduleReload()),
+            watcher.onDidChange(() => this.scheduleReload()),
+            watcher.onDidDelete(() => this.scheduleReload()),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.scheduleReload())
+        );
+
+        this.loading = this.load();
+    }
+
+    /**
+     * Resolves once the ignore files are loaded.
+     */
+    public ready(): Promise<void> {
+        return this.loading;
+    }
+
+    public isIgnored(uri: vscode.Uri): boolean {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        const rules = folder && this.rulesByFolder.get(folder.uri.toString());
+        if (!folder || !rules) {
+            return false;
+        }
+
+        const path = vscode.workspace.asRelativePath(uri, false);
+        if (rules.tabcoder.isIgnored(path)) {
+            return true;
+        }
+        return this.configProvider.getConfiguration().ignore.useGitignore && rules.git.isIgnored(path);
+    }
+
+    private scheduleReload(): void {
+        if (this.reloadTimeout) {
+            clearTimeout(this.reloadTimeout);
+        }
+        this.reloadTimeout = setTimeout(() => {
+            this.reloadTimeout = undefined;
+            this.loading = this.load();
+        }, 500);
+    }
+
+    private async load(): Promise<void> {
+        const rulesByFolder: Map<string, FolderRules> = new Map();
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            rulesByFolder.set(folder.uri.toString(), {
+                tabcoder: await this.loadRules(folder, TABCODER_IGNORE_FILE),
+                git: await this.loadRules(folder, GIT_IGNORE_FILE),
+            });
+        }
+        this.rulesByFolder = rulesByFolder;
+        this._onDidChangeRules.fire();
+    }
+
+    private async loadRules(folder: vscode.WorkspaceFolder, fileName: string): Promise<IgnoreRules> {
+        const rules = new IgnoreRules();
+        try {
+            const files = await vscode.workspace.findFiles(
+                new vscode.RelativePattern(folder, `**/${fileName}`),
+                IGNORE_FILES_EXCLUDE,
+                MAX_IGNORE_FILES
+            );
+
+            // Files closer to the root first, deeper ones take precedence.
+            const entries = files
+                .map(uri => ({ uri, base: vscode.workspace.asRelativePath(uri, false).split('/').slice(0, -1).join('/') }))
+                .sort((a, b) => depth(a.base) - depth(b.base));
+
+            for (const { uri, base } of entries) {
+                const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+                rules.add(content, base);
+            }
+        } catch (error) {
+            logger.error(`Failed to load ${fileName} files of ${folder.name}:`, error);
+        }
+        return rules;
+    }
+
+    public dispose(): void {
+        if (this.reloadTimeout) {
+            clearTimeout(this.reloadTimeout);
+        }
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+function depth(directory: string): number {
+    return directory ? directory.split('/').length : 0;
+}
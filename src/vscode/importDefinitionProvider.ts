@@ -0,0 +1,215 @@
+import * as vscode from 'vscode';
+import { CodeSnippet } from '../autocomplete/context';
+import { extractSignature, findImportedIdentifiers, ImportedIdentifier } from '../autocomplete/imports';
+import { ImportContextSettings } from '../types';
+import { logger } from '../utils/logger';
+import { EnablementProvider } from './enablementProvider';
+
+// Definition and symbol providers can be slow, results are dropped past this delay.
+const RESOLUTION_TIMEOUT_MS = 1000;
+
+// Type declarations are kept whole when they are shorter than this.
+const MAX_TYPE_LINES = 20;
+
+const TYPE_SYMBOL_KINDS = new Set([
+    vscode.SymbolKind.Interface,
+    vscode.SymbolKind.Struct,
+    vscode.SymbolKind.Enum,
+    vscode.SymbolKind.TypeParameter,
+]);
+
+// Classes are rendered with the signatures of their members, up to this count.
+// Modules and namespaces are not: a namespace import would expand a whole library.
+const MAX_CLASS_MEMBERS = 20;
+
+// Total length of the signatures of a document, in characters.
+const MAX_SIGNATURES_LENGTH = 6000;
+
+type Definition = {
+    uri: vscode.Uri;
+    position: vscode.Position;
+}
+
+/**
+ * Resolves the symbols imported by a document through the language definition
+ * and document symbol providers, and renders their signatures as snippets.
+ */
+export class ImportDefinitionProvider implements vscode.Disposable {
+    // Signatures are cached until the imports of the document change or it is closed.
+    private cache: Map<string, { imports: string; snippets: CodeSnippet[] }> = new Map();
+    private disposables: vscode.Disposable[] = [];
+    private enablementProvider: EnablementProvider;
+
+    constructor(enablementProvider: EnablementProvider) {
+        this.enablementProvider = enablementProvider;
+        this.disposables.push(
+            vscode.workspace.onDidCloseTextDocument(document => {
+                this.cache.delete(document.uri.toString());
+            })
+        );
+    }
+
+    public async getSnippets(document: vscode.TextDocument, settings: ImportContextSettings): Promise<CodeSnippet[]> {
+        if (!settings.enabled || settings.maxDefinitions <= 0) {
+            return [];
+        }
+
+        const lines = Array.from({ length: document.lineCount }, (_, i) => document.lineAt(i).text);
+        const identifiers = findImportedIdentifiers(lines);
+        const imports = identifiers.map(identifier => `${identifier.name}@${identifier.line}`).join(',');
+
+        const key = document.uri.toString();
+        const cached = this.cache.get(key);
+        if (cached && cached.imports === imports) {
+            return cached.snippets;
+        }
+
+        // The lookup is attempted once per imports: while a slow language server
+        // answers, later requests get the previous signatures without waiting.
+        const entry = { imports, snippets: cached?.snippets ?? [] };
+        this.cache.set(key, entry);
+        const lookup = this.resolveSnippets(document, identifiers, settings.maxDefinitions).then(snippets => {
+            entry.snippets = snippets;
+            return snippets;
+        });
+
+        const snippets = await withTimeout(lookup, RESOLUTION_TIMEOUT_MS);
+        if (!snippets) {
+            logger.info(`Resolving imported definitions of ${document.fileName} timed out`);
+            return entry.snippets;
+        }
+        return snippets;
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    private async resolveSnippets(
+        document: vscode.TextDocument,
+        identifiers: ImportedIdentifier[],
+        maxDefinitions: number
+    ): Promise<CodeSnippet[]> {
+        const definitions = await Promise.all(identifiers.map(identifier =>
+            this.findDefinition(document, new vscode.Position(identifier.line, identifier.character))
+        ));
+
+        // Group signatures by file, in import order.
+        const signaturesByFile: Map<string, { uri: vscode.Uri; signatures: string[] }> = new Map();
+        let count = 0;
+        let length = 0;
+        for (const definition of definitions) {
+            if (!definition || definition.uri.toString() === document.uri.toString()) {
+                continue;
+            }
+            if (count >= maxDefinitions) {
+                break;
+            }
+
+            const signature = await this.signatureAt(definition);
+            if (!signature || length + signature.length > MAX_SIGNATURES_LENGTH) {
+                continue;
+            }
+
+            const entry = signaturesByFile.get(definition.uri.toString()) ?? { uri: definition.uri, signatures: [] };
+            if (!entry.signatures.includes(signature)) {
+                entry.signatures.push(signature);
+                count++;
+                length += signature.length;
+            }
+            signaturesByFile.set(definition.uri.toString(), entry);
+        }
+
+        return [...signaturesByFile.values()].map(entry => ({
+            filename: vscode.workspace.asRelativePath(entry.uri),
+            content: entry.signatures.join('\n'),
+        }));
+    }
+
+    private async findDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<Definition | undefined> {
+        try {
+            const results = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
+                'vscode.executeDefinitionProvider',
+                document.uri,
+                position
+            );
+            const result = results?.[0];
+            if (!result) {
+                return undefined;
+            }
+            if ('targetUri' in result) {
+                return { uri: result.targetUri, position: (result.targetSelectionRange ?? result.targetRange).start };
+            }
+            return { uri: result.uri, position: result.range.start };
+        } catch (error) {
+            logger.debug(`Failed to resolve definition at ${position.line}:${position.character}:`, error);
+            return undefined;
+        }
+    }
+
+    private async signatureAt(definition: Definition): Promise<string | undefined> {
+        let document: vscode.TextDocument;
+        let symbols: vscode.DocumentSymbol[] | undefined;
+        try {
+            document = await vscode.workspace.openTextDocument(definition.uri);
+            symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+                'vscode.executeDocumentSymbolProvider',
+                definition.uri
+            );
+        } catch (error) {
+            logger.debug(`Failed to load symbols of ${definition.uri.toString()}:`, error);
+            return undefined;
+        }
+
+        // Definitions from excluded files are not sent to the model either.
+        if (this.enablementProvider.isExcluded(document)) {
+            return undefined;
+        }
+
+        const symbol = findSymbol(symbols ?? [], definition.position);
+        if (!symbol) {
+            return undefined;
+        }
+
+        const text = document.getText(symbol.range);
+        if (TYPE_SYMBOL_KINDS.has(symbol.kind)) {
+            return text.split('\n').slice(0, MAX_TYPE_LINES).join('\n');
+        }
+
+        if (symbol.kind === vscode.SymbolKind.Class) {
+            const members = symbol.children
+                .filter(child => child.kind !== vscode.SymbolKind.Variable)
+                .slice(0, MAX_CLASS_MEMBERS)
+                .map(child => {
+                    const indentation = document.lineAt(child.range.start.line).text.match(/^\s*/)?.[0] ?? '';
+                    return indentation + extractSignature(document.getText(child.range));
+                });
+            return [extractSignature(text), ...members].join('\n');
+        }
+
+        return extractSignature(text);
+    }
+}
+
+// Find the innermost symbol declared at the given position.
+function findSymbol(symbols: vscode.DocumentSymbol[], position: vscode.Position): vscode.DocumentSymbol | undefined {
+    for (const symbol of symbols) {
+        if (symbol.range.contains(position)) {
+            if (symbol.selectionRange.contains(position)) {
+                return symbol;
+            }
+            return findSymbol(symbol.children, position) ?? (symbol.range.start.isEqual(position) ? symbol : undefined);
+        }
+    }
+    return undefined;
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T | undefined> {
+    let timeout: NodeJS.Timeout | undefined;
+    return Promise.race([
+        promise.finally(() => clearTimeout(timeout)),
+        new Promise<undefined>(resolve => {
+            timeout = setTimeout(() => resolve(undefined), timeoutMs);
+        }),
+    ]);
+}
@@ -1,8 +1,18 @@
 import * as vscode from 'vscode';
 import { ProfileService } from '../services/profileService';
-import { ProfileWithAPIKey, ProviderConnection, ProviderID } from '../types';
+import { FimMode, GenerationParams, Model, Profile, ProfileWithAPIKey, ProviderConnection, ProviderID } from '../types';
 import { logger } from '../utils/logger';
-import { listModelsFromProviderConnection, providers } from '../providers/providers';
+import { listModelsFromProviderConnection, providers, requiresApiKey } from '../providers/providers';
+import { DEFAULT_MAX_OUTPUT_TOKENS, validateGenerationParams } from '../providers/generation';
+import { testConnection } from '../providers/connectionTest';
+import { DEFAULT_AZURE_API_VERSION } from '../providers/azure';
+import { describeProviderError } from '../providers/errors';
+import { detectFimTemplate, fimTemplates } from '../autocomplete/fimTemplates';
+import { contextBudgetForModel } from '../autocomplete/contextBudget';
+import { createProfileBundle, findDuplicateProfile, parseProfileBundle, uniqueProfileName } from '../services/profileBundle';
+
+// Providers of local servers, which can request completions without the chat API.
+const FIM_MODE_PROVIDERS: ProviderID[] = ['ollama', 'llamacpp', 'lmstudio'];
 
 export class ProfileCommandProvider {
     private profileService: ProfileService;
@@ -55,17 +65,18 @@ export class ProfileCommandProvider {
                 return; // User cancelled
             }
 
-            // Get API key (optional for Ollama)
+            // Get API key (not used by Ollama, optional for local servers)
             let apiKey = '';
             if (selectedProvider.id !== 'ollama') {
+                const keyRequired = requiresApiKey(selectedProvider.id);
                 const inputApiKey = await vscode.window.showInputBox({
                     title: 'Create New AI Profile - Step 3 of 5',
                     prompt: `Enter your ${providerInfo?.name || 'API'} key`,
-                    placeHolder: 'Your API key will be stored securely in VS Code settings',
+                    placeHolder: keyRequired ? 'Your API key will be stored securely in VS Code settings' : 'Leave empty if the server has no API key',
                     password: true,
                     ignoreFocusOut: true,
                     validateInput: (value) => {
-                        if (!value || value.trim().length === 0) {
+                        if (keyRequired && (!value || value.trim().length === 0)) {
                             return 'API key is required for this provider';
                         }
 
@@ -73,27 +84,52 @@ export class ProfileCommandProvider {
                     }
                 });
 
-                if (!inputApiKey) {
+                if (inputApiKey === undefined) {
                     return; // User cancelled
                 }
                 apiKey = inputApiKey;
             }
 
             let selectedModelId = '';
+            let contextLength: number | undefined;
+            let apiVersion: string | undefined;
             if (selectedProvider.id === 'mistral-codestral') {
                 selectedModelId = 'codestral-latest';
+            } else if (selectedProvider.id === 'azure') {
+                const deployment = await this.askForAzureDeployment('Create New AI Profile - Step 4 of 5');
+                if (!deployment) {
+                    return; // User cancelled
+                }
+                selectedModelId = deployment.modelId;
+                apiVersion = deployment.apiVersion;
             } else {
-               selectedModelId = await this.askForModel({
+                const model = await this.askForModel({
                     id: selectedProvider.id,
                     baseURL,
                     apiKey
                 });
+                selectedModelId = model?.id ?? '';
+                contextLength = model?.contextLength;
             }
 
             if (!selectedModelId) {
                 return;
             }
 
+            // Local servers can call code models directly with their FIM tokens.
+            let fimMode: FimMode | undefined;
+            if (FIM_MODE_PROVIDERS.includes(selectedProvider.id)) {
+                fimMode = await this.askForFimMode(selectedModelId, selectedProvider.id);
+                if (!fimMode) {
+                    return; // User cancelled
+                }
+            }
+
+            const generation = await this.askForGenerationParams(selectedProvider.id, undefined, 'Create New AI Profile - Generation Parameters');
+            if (!generation) {
+                return; // User cancelled
+            }
+
             // Ask the user to set profile name.
             const existingProfiles = this.profileService.listProfiles();
             const name = await vscode.window.showInputBox({
@@ -122,6 +158,12 @@ export class ProfileCommandProvider {
 
             logger.info(`Profile name entered: ${name.trim()}`);
 
+            // Ask where to save the profile when a workspace is open.
+            const target = await this.askForScope('Create New AI Profile - Save Location', 'Choose where to save this profile');
+            if (target === undefined) {
+                return; // User cancelled
+            }
+
             // Ask if user wants to set this profile as default.
             const currentActiveProfile = await this.profileService.getActiveProfile();
             const setAsDefault = await vscode.window.showQuickPick(
@@ -159,16 +201,20 @@ export class ProfileCommandProvider {
                 provider: selectedProvider.id,
                 baseURL: baseURL.trim(),
                 modelId: selectedModelId.trim(),
+                apiVersion,
+                fimMode,
+                contextBudget: contextBudgetForModel(contextLength),
+                generation: Object.keys(generation).length > 0 ? generation : undefined,
                 apiKey: apiKey.trim()
             };
 
-            const newProfile = await this.profileService.createProfile(profileData);
+            const newProfile = await this.profileService.createProfile(profileData, target);
             logger.info(`Profile created via command: ${newProfile.name}`);
 
             // Set as default if requested
             if (shouldSetAsDefault) {
                 try {
-                    await this.profileService.setActiveProfileId(newProfile.id);
+                    await this.profileService.setActiveProfileId(newProfile.id, target);
                     logger.info(`Profile set as default: ${newProfile.name}`);
                     vscode.window.showInformationMessage(`Profile "${newProfile.name}" created and activated! TabCoder is ready to use.`);
                 } catch (error) {
@@ -192,10 +238,14 @@ export class ProfileCommandProvider {
         }
     }
 
-    async askForModel(conn: ProviderConnection): Promise<string> {
+    async askForModel(
+        conn: ProviderConnection,
+        title: string = 'Create New AI Profile - Step 4 of 5',
+        currentModelId?: string
+    ): Promise<Model | undefined> {
         // Load models for the selected provider.
-        const qp = vscode.window.createQuickPick();
-        qp.title = 'Create New AI Profile - Step 4 of 5';
+        const qp = vscode.window.createQuickPick<vscode.QuickPickItem & { id?: string }>();
+        qp.title = title;
         qp.placeholder = 'Loading available models from your provider...';
         qp.items = [{
             label: '$(loading~spin) Loading models...',
@@ -206,7 +256,7 @@ export class ProfileCommandProvider {
         qp.busy = true;
         qp.show();
 
-        let models: any[] = [];
+        let models: Model[] = [];
         try {
             models = await listModelsFromProviderConnection(conn);
         } catch (error) {
@@ -227,7 +277,7 @@ export class ProfileCommandProvider {
                 });
             });
 
-            return '';
+            return undefined;
         }
 
         // Replace items as models are now loaded.
@@ -242,30 +292,429 @@ export class ProfileCommandProvider {
             qp.items = models.map(model => ({
                 label: model.name,
                 id: model.id,
-                description: `Model ID: ${model.id}`,
-                detail: 'Select this model for code completions'
+                description: `Model ID: ${model.id}${model.id === currentModelId ? ' • Current model' : ''}`,
+                detail: describeModel(model) || 'Select this model for code completions'
             }));
             qp.placeholder = `Choose from ${models.length} available models`;
+            qp.activeItems = qp.items.filter(item => item.id && item.id === currentModelId);
         }
         qp.busy = false;
 
         // Wait for user to select a model.
-        return await new Promise<string>((resolve) => {
+        return await new Promise<Model | undefined>((resolve) => {
             qp.onDidAccept(() => {
                 const selectedItems = qp.selectedItems;
                 if (selectedItems.length > 0) {
-                    const modelName = selectedItems[0].label;
-                    const selectedModelId = models.find(m => m.name === modelName)?.id || '';
+                    const selectedModel = models.find(m => m.id === selectedItems[0].id);
                     qp.hide();
-                    resolve(selectedModelId);
+                    resolve(selectedModel);
                 }
             });
 
             qp.onDidHide(() => {
                 qp.dispose();
-                resolve(''); // User cancelled or closed the picker
+                resolve(undefined); // User cancelled or closed the picker
+            });
+        });
+    }
+
+    // Azure OpenAI profiles use the name of a deployment as model ID, entered
+    // by the user since recent API versions can't list deployments.
+    async askForAzureDeployment(
+        title: string,
+        current?: Pick<Profile, 'modelId' | 'apiVersion'>
+    ): Promise<{ modelId: string; apiVersion: string } | undefined> {
+        const modelId = await vscode.window.showInputBox({
+            title,
+            prompt: 'Enter the name of the Azure OpenAI deployment',
+            placeHolder: 'e.g., gpt-4o-mini',
+            ignoreFocusOut: true,
+            value: current?.modelId,
+            validateInput: (value) => value.trim().length === 0 ? 'Deployment name cannot be empty' : null
+        });
+
+        if (!modelId) {
+            return undefined; // User cancelled
+        }
+
+        const apiVersion = await vscode.window.showInputBox({
+            title,
+            prompt: 'Enter the API version of the requests',
+            ignoreFocusOut: true,
+            value: current?.apiVersion || DEFAULT_AZURE_API_VERSION,
+            validateInput: (value) => /^\d{4}-\d{2}-\d{2}(-preview)?$/.test(value.trim()) ? null : 'API version must look like 2024-10-21 or 2025-01-01-preview'
+        });
+
+        if (!apiVersion) {
+            return undefined; // User cancelled
+        }
+
+        return { modelId: modelId.trim(), apiVersion: apiVersion.trim() };
+    }
+
+    // Ollama supports every mode, llama.cpp fills the middle with /infill
+    // (suffix mode) and LM Studio with raw prompts.
+    async askForFimMode(modelId: string, providerId: ProviderID): Promise<FimMode | undefined> {
+        const detectedTemplate = detectFimTemplate(modelId);
+
+        const items: { label: string; description: string; detail: string; mode: FimMode }[] = [
+            {
+                label: 'Chat',
+                description: 'Hole filler prompt through the chat API',
+                detail: 'Works with any instruction-tuned model',
+                mode: 'chat'
+            },
+            ...providerId === 'ollama' ? [{
+                label: 'Model template (suffix)',
+                description: 'Send prefix and suffix, let Ollama apply the model template',
+                detail: 'Requires a model whose Ollama template supports suffixes',
+                mode: 'suffix' as const
+            }] : [],
+            ...providerId === 'llamacpp' ? [{
+                label: '$(star) Native infill',
+                description: 'Send prefix, suffix and related code to the /infill endpoint',
+                detail: 'Requires a code model with FIM tokens',
+                mode: 'suffix' as const
+            }] : [],
+            ...providerId === 'llamacpp' ? [] : Object.values(fimTemplates).map(template => ({
+                label: `${template.id === detectedTemplate ? '$(star) ' : ''}Raw FIM: ${template.name}`,
+                description: template.id === detectedTemplate ? 'Detected from model name' : '',
+                detail: `Raw prompt using ${template.name} FIM tokens`,
+                mode: template.id
+            }))
+        ];
+
+        const selected = await vscode.window.showQuickPick(items, {
+            title: 'Create New AI Profile - Completion Mode',
+            placeHolder: 'Choose how completions are requested from this model',
+            ignoreFocusOut: true
+        });
+
+        return selected?.mode;
+    }
+
+    /**
+     * Command: Edit the name, base URL, model and API key of a profile
+     */
+    public async editProfile(): Promise<void> {
+        try {
+            const profiles = this.profileService.listProfiles();
+
+            if (profiles.length === 0) {
+                vscode.window.showInformationMessage('No profiles found. There are no profiles to edit.');
+                return;
+            }
+
+            const currentActiveProfile = await this.profileService.getActiveProfile();
+
+            const selectedItem = await vscode.window.showQuickPick(profiles.map(profile => ({
+                label: `${profile.id === currentActiveProfile?.id ? '$(check) ' : ''}${profile.name}`,
+                description: `${profile.provider} • ${profile.modelId}${this.scopeDescription(profile.id)}`,
+                detail: profile.baseURL,
+                profile
+            })), {
+                title: 'Edit Profile - Step 1 of 5',
+                placeHolder: 'Choose a profile to edit',
+                ignoreFocusOut: true,
+                matchOnDescription: true,
+                matchOnDetail: true
+            });
+
+            if (!selectedItem) {
+                return; // User cancelled
+            }
+            const profile = selectedItem.profile;
+            const providerInfo = providers.find(p => p.id === profile.provider);
+
+            const name = await vscode.window.showInputBox({
+                title: 'Edit Profile - Step 2 of 5',
+                prompt: 'Profile name',
+                ignoreFocusOut: true,
+                value: profile.name,
+                validateInput: (value) => {
+                    if (!value || value.trim().length === 0) {
+                        return 'Profile name cannot be empty';
+                    }
+                    if (value.trim().length < 2) {
+                        return 'Profile name must be at least 2 characters long';
+                    }
+                    if (profiles.some(p => p.id !== profile.id && p.name.toLowerCase() === value.trim().toLowerCase())) {
+                        return 'A profile with this name already exists. Please choose a different name.';
+                    }
+                    return null;
+                }
+            });
+
+            if (!name) {
+                return; // User cancelled
+            }
+
+            const baseURL = await vscode.window.showInputBox({
+                title: 'Edit Profile - Step 3 of 5',
+                prompt: `API base URL for ${providerInfo?.name || 'your provider'}`,
+                ignoreFocusOut: true,
+                value: profile.baseURL,
+                validateInput: (value) => {
+                    if (!value || value.trim().length === 0) {
+                        return 'Base URL cannot be empty';
+                    }
+                    try {
+                        new URL(value.trim());
+                        return null;
+                    } catch {
+                        return 'Please enter a valid URL (e.g., https://api.example.com)';
+                    }
+                }
+            });
+
+            if (!baseURL) {
+                return; // User cancelled
+            }
+
+            // The stored key is kept when the input is left empty.
+            const currentApiKey = await this.profileService.getApiKey(profile.id) ?? '';
+            let apiKey = '';
+            if (profile.provider !== 'ollama') {
+                const inputApiKey = await vscode.window.showInputBox({
+                    title: 'Edit Profile - Step 4 of 5',
+                    prompt: `Enter a new ${providerInfo?.name || 'API'} key`,
+                    placeHolder: currentApiKey ? 'Leave empty to keep the current API key' : 'Your API key will be stored securely in VS Code settings',
+                    password: true,
+                    ignoreFocusOut: true,
+                    validateInput: (value) => {
+                        if (requiresApiKey(profile.provider) && !currentApiKey && value.trim().length === 0) {
+                            return 'API key is required for this provider';
+                        }
+                        return null;
+                    }
+                });
+
+                if (inputApiKey === undefined) {
+                    return; // User cancelled
+                }
+                apiKey = inputApiKey.trim();
+            }
+
+            let modelId = profile.modelId;
+            let contextBudget = profile.contextBudget;
+            let apiVersion = profile.apiVersion;
+            if (profile.provider === 'azure') {
+                const deployment = await this.askForAzureDeployment('Edit Profile - Step 5 of 5', profile);
+                if (!deployment) {
+                    return; // User cancelled
+                }
+                modelId = deployment.modelId;
+                apiVersion = deployment.apiVersion;
+            } else if (profile.provider !== 'mistral-codestral') {
+                const model = await this.askForModel({
+                    id: profile.provider,
+                    baseURL: baseURL.trim(),
+                    apiKey: apiKey || currentApiKey
+                }, 'Edit Profile - Step 5 of 5', profile.modelId);
+                modelId = model?.id ?? '';
+
+                // The context budget is lowered to fit the context window of a new model.
+                if (model && model.id !== profile.modelId) {
+                    contextBudget = contextBudgetForModel(model.contextLength, profile.contextBudget);
+                }
+            }
+
+            if (!modelId) {
+                return; // User cancelled
+            }
+
+            const generation = await this.askForGenerationParams(profile.provider, profile.generation, 'Edit Profile - Generation Parameters');
+            if (!generation) {
+                return; // User cancelled
+            }
+
+            const updatedProfile = await this.profileService.updateProfile(profile.id, {
+                ...profile,
+                name: name.trim(),
+                baseURL: baseURL.trim(),
+                modelId,
+                contextBudget,
+                apiVersion,
+                generation: Object.keys(generation).length > 0 ? generation : undefined,
+                apiKey
+            });
+
+            logger.info(`Profile edited via command: ${updatedProfile.name}`);
+            vscode.window.showInformationMessage(`Profile "${updatedProfile.name}" updated successfully.`);
+        } catch (error) {
+            logger.error('Error editing profile via command:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to edit profile: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Command: Test a profile by requesting a minimal completion
+     */
+    public async testProfile(): Promise<void> {
+        try {
+            const profiles = this.profileService.listProfiles();
+
+            if (profiles.length === 0) {
+                vscode.window.showInformationMessage('No profiles found. There are no profiles to test.');
+                return;
+            }
+
+            // The active profile is tested without asking when there is no other one.
+            const currentActiveProfile = await this.profileService.getActiveProfile();
+            let profile = profiles.length === 1 ? profiles[0] : undefined;
+            if (!profile) {
+                const profileItems = profiles.map(p => ({
+                    label: `${p.id === currentActiveProfile?.id ? '$(check) ' : ''}${p.name}`,
+                    description: `${p.provider} • ${p.modelId}${this.scopeDescription(p.id)}`,
+                    detail: p.baseURL,
+                    profile: p
+                }));
+                // Active profile first.
+                profileItems.sort((a, b) => Number(b.profile.id === currentActiveProfile?.id) - Number(a.profile.id === currentActiveProfile?.id));
+
+                const selectedItem = await vscode.window.showQuickPick(profileItems, {
+                    title: 'Test Profile',
+                    placeHolder: 'Choose a profile to test',
+                    ignoreFocusOut: true,
+                    matchOnDescription: true
+                });
+
+                if (!selectedItem) {
+                    return; // User cancelled
+                }
+                profile = selectedItem.profile;
+            }
+
+            const apiKey = await this.profileService.getApiKey(profile.id) ?? '';
+            const testedProfile = { ...profile, apiKey };
+            const result = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Testing profile "${profile.name}"...`
+            }, () => testConnection(testedProfile));
+
+            if (result.ok) {
+                logger.info(`Profile ${profile.name} tested successfully in ${result.latencyMs} ms`);
+                vscode.window.showInformationMessage(`Profile "${profile.name}" works: ${profile.modelId} answered in ${result.latencyMs} ms.`);
+                return;
+            }
+
+            logger.warn(`Profile ${profile.name} test failed after ${result.latencyMs} ms (${result.error.kind}):`, result.error.message);
+            const details = result.error.kind === 'unknown' ? '' : ` (${result.error.message})`;
+            const action = await vscode.window.showErrorMessage(
+                `Profile "${profile.name}" failed: ${describeProviderError(result.error)}${details}.`,
+                'Edit Profile'
+            );
+
+            if (action === 'Edit Profile') {
+                await this.editProfile();
+            }
+        } catch (error) {
+            logger.error('Error testing profile via command:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to test profile: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Ask for the generation parameters of a profile, starting from the current
+     * ones. Returns an empty object for the defaults, undefined if cancelled.
+     */
+    async askForGenerationParams(
+        providerId: ProviderID,
+        current: GenerationParams | undefined,
+        title: string
+    ): Promise<GenerationParams | undefined> {
+        const items: { label: string; description: string; action: 'keep' | 'defaults' | 'customize' }[] = [];
+        if (current && Object.keys(current).length > 0) {
+            items.push({
+                label: '$(check) Keep current parameters',
+                description: describeGenerationParams(current),
+                action: 'keep'
             });
+        }
+        items.push(
+            {
+                label: '$(zap) Use defaults',
+                description: `Provider sampling defaults, completions limited to ${DEFAULT_MAX_OUTPUT_TOKENS} tokens`,
+                action: 'defaults'
+            },
+            {
+                label: '$(settings) Customize',
+                description: 'Temperature, output length, top-p, stop sequences, headers and extra body fields',
+                action: 'customize'
+            }
+        );
+
+        const selected = await vscode.window.showQuickPick(items, {
+            title,
+            placeHolder: 'Choose the generation parameters of completion requests',
+            ignoreFocusOut: true
         });
+
+        if (!selected) {
+            return undefined;
+        } else if (selected.action === 'keep') {
+            return current;
+        } else if (selected.action === 'defaults') {
+            return {};
+        }
+
+        // Each input is validated with the limits of the provider, empty inputs use the defaults.
+        const params: GenerationParams = {};
+        const fields: {
+            key: keyof GenerationParams;
+            prompt: string;
+            placeHolder: string;
+            parse: (value: string) => unknown;
+        }[] = [
+            { key: 'temperature', prompt: 'Sampling temperature', placeHolder: 'e.g., 0.2 (empty for the provider default)', parse: Number },
+            { key: 'maxOutputTokens', prompt: 'Maximum output tokens', placeHolder: `e.g., 128 (empty for ${DEFAULT_MAX_OUTPUT_TOKENS})`, parse: Number },
+            { key: 'topP', prompt: 'Top-p', placeHolder: 'e.g., 0.9 (empty for the provider default)', parse: Number },
+            { key: 'stopSequences', prompt: 'Stop sequences, as a JSON array', placeHolder: 'e.g., ["\\n\\n"] (empty for none)', parse: JSON.parse },
+            { key: 'headers', prompt: 'HTTP headers, as a JSON object', placeHolder: 'e.g., {"X-Team": "platform"} (empty for none)', parse: JSON.parse },
+            {
+                key: 'extraBody',
+                prompt: providerId === 'ollama' ? 'Model options, as a JSON object' : 'Extra request body fields, as a JSON object',
+                placeHolder: providerId === 'ollama' ? 'e.g., {"num_ctx": 8192} (empty for none)' : 'e.g., {"seed": 42} (empty for none)',
+                parse: JSON.parse
+            },
+        ];
+
+        for (const [i, field] of fields.entries()) {
+            const currentValue = current?.[field.key];
+            const value = await vscode.window.showInputBox({
+                title: `${title} (${i + 1} of ${fields.length})`,
+                prompt: field.prompt,
+                placeHolder: field.placeHolder,
+                ignoreFocusOut: true,
+                value: currentValue === undefined ? '' : typeof currentValue === 'number' ? String(currentValue) : JSON.stringify(currentValue),
+                validateInput: (value) => {
+                    if (!value.trim()) {
+                        return null;
+                    }
+                    let parsed: unknown;
+                    try {
+                        parsed = field.parse(value.trim());
+                    } catch {
+                        return 'Please enter valid JSON';
+                    }
+                    if (typeof parsed === 'number' && isNaN(parsed)) {
+                        return 'Please enter a number';
+                    }
+                    return validateGenerationParams(providerId, { [field.key]: parsed })[0] ?? null;
+                }
+            });
+
+            if (value === undefined) {
+                return undefined; // User cancelled
+            }
+            if (value.trim()) {
+                Object.assign(params, { [field.key]: field.parse(value.trim()) });
+            }
+        }
+
+        return params;
     }
 
     /**
@@ -292,7 +741,7 @@ export class ProfileCommandProvider {
             // Create quick pick items
             const profileItems = profiles.map(profile => ({
                 label: `${profile.id === currentActiveProfile?.id ? '$(check) ' : ''}${profile.name}`,
-                description: `${profile.provider} • ${profile.modelId}`,
+                description: `${profile.provider} • ${profile.modelId}${this.scopeDescription(profile.id)}`,
                 detail: profile.baseURL,
                 profileId: profile.id
             }));
@@ -317,7 +766,20 @@ export class ProfileCommandProvider {
                 return; // User cancelled
             }
 
-            await this.profileService.setActiveProfileId(selectedItem.profileId);
+            // Profiles of a workspace can't be activated for all workspaces.
+            const profileScope = selectedItem.profileId
+                ? this.profileService.getProfileScope(selectedItem.profileId)
+                : undefined;
+            const target = await this.askForScope(
+                'Switch Active Profile - Scope',
+                'Choose where this choice applies',
+                profileScope
+            );
+            if (target === undefined) {
+                return; // User cancelled
+            }
+
+            await this.profileService.setActiveProfileId(selectedItem.profileId, target);
 
             if (selectedItem.profileId) {
                 const profileName = selectedItem.label.replace('$(check) ', '');
@@ -333,6 +795,66 @@ export class ProfileCommandProvider {
         }
     }
 
+    /**
+     * Ask where to save settings: user settings, workspace settings, or the
+     * settings of the folder of the active editor in multi-root workspaces.
+     * Scopes less specific than minimumScope are not offered, and the only
+     * remaining scope is returned without asking.
+     */
+    async askForScope(
+        title: string,
+        placeHolder: string,
+        minimumScope: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global
+    ): Promise<vscode.ConfigurationTarget | undefined> {
+        const items: { label: string; description: string; target: vscode.ConfigurationTarget }[] = [{
+            label: '$(account) User Settings',
+            description: 'All workspaces',
+            target: vscode.ConfigurationTarget.Global
+        }];
+
+        if (vscode.workspace.workspaceFolders?.length) {
+            items.push({
+                label: '$(root-folder) Workspace Settings',
+                description: vscode.workspace.name ?? 'Current workspace',
+                target: vscode.ConfigurationTarget.Workspace
+            });
+        }
+
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        const folder = activeUri && vscode.workspace.getWorkspaceFolder(activeUri);
+        if (vscode.workspace.workspaceFile && folder) {
+            items.push({
+                label: '$(folder) Folder Settings',
+                description: folder.name,
+                target: vscode.ConfigurationTarget.WorkspaceFolder
+            });
+        }
+
+        const availableItems = items.filter(item => item.target >= minimumScope);
+        if (availableItems.length <= 1) {
+            return availableItems[0]?.target ?? minimumScope;
+        }
+
+        const selected = await vscode.window.showQuickPick(availableItems, {
+            title,
+            placeHolder,
+            ignoreFocusOut: true
+        });
+
+        return selected?.target;
+    }
+
+    private scopeDescription(profileId: string): string {
+        switch (this.profileService.getProfileScope(profileId)) {
+            case vscode.ConfigurationTarget.Workspace:
+                return ' • Workspace';
+            case vscode.ConfigurationTarget.WorkspaceFolder:
+                return ' • Folder';
+            default:
+                return '';
+        }
+    }
+
     /**
      * Command: Remove a configuration profile
      */
@@ -401,4 +923,213 @@ export class ProfileCommandProvider {
             vscode.window.showErrorMessage(`Failed to delete profile: ${errorMessage}`);
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Command: Export profiles to a JSON file, without their API keys
+     */
+    public async exportProfiles(): Promise<void> {
+        try {
+            const profiles = this.profileService.listProfiles();
+
+            if (profiles.length === 0) {
+                vscode.window.showInformationMessage('No profiles found. There are no profiles to export.');
+                return;
+            }
+
+            const profileItems = profiles.map(profile => ({
+                label: profile.name,
+                description: `${profile.provider} • ${profile.modelId}${this.scopeDescription(profile.id)}`,
+                detail: profile.baseURL,
+                picked: true,
+                profile
+            }));
+
+            const selectedItems = await vscode.window.showQuickPick(profileItems, {
+                title: 'Export Profiles',
+                placeHolder: 'Choose the profiles to export (API keys are not exported)',
+                ignoreFocusOut: true,
+                canPickMany: true
+            });
+
+            if (!selectedItems || selectedItems.length === 0) {
+                return; // User cancelled
+            }
+
+            const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+            const uri = await vscode.window.showSaveDialog({
+                title: 'Export Profiles',
+                defaultUri: defaultFolder && vscode.Uri.joinPath(defaultFolder, 'tabcoder-profiles.json'),
+                filters: { 'TabCoder Profiles': ['json'] }
+            });
+
+            if (!uri) {
+                return; // User cancelled
+            }
+
+            const bundle = createProfileBundle(selectedItems.map(item => item.profile));
+            await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(JSON.stringify(bundle, null, 2) + '\n'));
+
+            logger.info(`${bundle.profiles.length} profiles exported to ${uri.fsPath}`);
+            vscode.window.showInformationMessage(`${bundle.profiles.length} profile(s) exported to ${uri.fsPath}.`);
+        } catch (error) {
+            logger.error('Error exporting profiles via command:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to export profiles: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Command: Import profiles from a JSON file, asking for their API keys
+     */
+    public async importProfiles(): Promise<void> {
+        try {
+            const uris = await vscode.window.showOpenDialog({
+                title: 'Import Profiles',
+                canSelectMany: false,
+                filters: { 'TabCoder Profiles': ['json'] }
+            });
+
+            if (!uris || uris.length === 0) {
+                return; // User cancelled
+            }
+
+            const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uris[0]));
+            const bundle = parseProfileBundle(content);
+
+            if (bundle.profiles.length === 0) {
+                vscode.window.showInformationMessage('The file contains no profiles.');
+                return;
+            }
+
+            const target = await this.askForScope('Import Profiles - Save Location', 'Choose where to save the imported profiles');
+            if (target === undefined) {
+                return; // User cancelled
+            }
+
+            // Ask once what to do with profiles already defined.
+            const existingProfiles = this.profileService.listProfiles();
+            const hasDuplicates = bundle.profiles.some(profile => findDuplicateProfile(profile, existingProfiles));
+            let replaceDuplicates = false;
+            if (hasDuplicates) {
+                const choice = await vscode.window.showQuickPick(
+                    [
+                        {
+                            label: '$(debug-step-over) Skip existing profiles',
+                            description: 'Keep the profiles you already have',
+                            replace: false
+                        },
+                        {
+                            label: '$(replace) Update existing profiles',
+                            description: 'Replace their settings with the imported ones, keeping their API keys',
+                            replace: true
+                        }
+                    ],
+                    {
+                        title: 'Import Profiles - Existing Profiles',
+                        placeHolder: 'Some profiles have the same name, provider and base URL as existing ones',
+                        ignoreFocusOut: true
+                    }
+                );
+
+                if (!choice) {
+                    return; // User cancelled
+                }
+                replaceDuplicates = choice.replace;
+            }
+
+            let imported = 0;
+            let skipped = 0;
+            const missingKeys: string[] = [];
+            for (const bundledProfile of bundle.profiles) {
+                const duplicate = findDuplicateProfile(bundledProfile, this.profileService.listProfiles());
+
+                let profile: Profile;
+                if (duplicate && !replaceDuplicates) {
+                    skipped++;
+                    continue;
+                } else if (duplicate) {
+                    profile = await this.profileService.updateProfile(duplicate.id, {
+                        ...bundledProfile,
+                        id: duplicate.id,
+                        name: duplicate.name,
+                        apiKey: ''
+                    });
+                } else {
+                    profile = await this.profileService.createProfile({
+                        ...bundledProfile,
+                        id: '', // Will be generated by the service
+                        name: uniqueProfileName(bundledProfile.name, this.profileService.listProfiles()),
+                        apiKey: ''
+                    }, target);
+                }
+                imported++;
+
+                if (!requiresApiKey(profile.provider) || await this.profileService.getApiKey(profile.id)) {
+                    continue;
+                }
+
+                const providerInfo = providers.find(p => p.id === profile.provider);
+                const apiKey = await vscode.window.showInputBox({
+                    title: `Import Profiles - API Key for "${profile.name}"`,
+                    prompt: `Enter your ${providerInfo?.name || 'API'} key for ${profile.baseURL}`,
+                    placeHolder: 'Leave empty to set it later by editing the profile',
+                    password: true,
+                    ignoreFocusOut: true
+                });
+
+                if (apiKey?.trim()) {
+                    await this.profileService.setApiKey(profile.id, apiKey.trim());
+                } else {
+                    missingKeys.push(profile.name);
+                }
+            }
+
+            logger.info(`Profiles imported from ${uris[0].fsPath}: ${imported} imported, ${skipped} skipped`);
+            const summary = `${imported} profile(s) imported${skipped ? `, ${skipped} already existing skipped` : ''}.`;
+            if (missingKeys.length > 0) {
+                vscode.window.showWarningMessage(`${summary} Use "Edit Profile" to set the API key of: ${missingKeys.join(', ')}.`);
+            } else {
+                vscode.window.showInformationMessage(summary);
+            }
+        } catch (error) {
+            logger.error('Error importing profiles via command:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to import profiles: ${errorMessage}`);
+        }
+    }
+}
+
+// Short summary of the parameters set, e.g. "temperature 0.2 • 128 tokens".
+function describeGenerationParams(params: GenerationParams): string {
+    return [
+        params.temperature !== undefined ? `temperature ${params.temperature}` : undefined,
+        params.maxOutputTokens !== undefined ? `${params.maxOutputTokens} tokens` : undefined,
+        params.topP !== undefined ? `top-p ${params.topP}` : undefined,
+        params.stopSequences?.length ? `${params.stopSequences.length} stop sequences` : undefined,
+        params.headers && Object.keys(params.headers).length ? 'headers' : undefined,
+        params.extraBody && Object.keys(params.extraBody).length ? 'extra body' : undefined,
+    ].filter(part => part).join(' • ');
+}
+
+// Metadata exposed by the provider, e.g. "7B • Q4_K_M • 33K context • FIM".
+function describeModel(model: Model): string {
+    return [
+        model.parameterSize,
+        model.quantization,
+        model.sizeBytes !== undefined ? `${(model.sizeBytes / 1e9).toFixed(1)} GB` : undefined,
+        model.contextLength !== undefined ? `${formatTokenCount(model.contextLength)} context` : undefined,
+        model.pricing ? describePricing(model.pricing.inputPerMillion, model.pricing.outputPerMillion) : undefined,
+        model.supportsFim ? 'FIM' : undefined,
+    ].filter(part => part).join(' • ');
+}
+
+function formatTokenCount(tokens: number): string {
+    return tokens >= 1_000_000 ? `${Number((tokens / 1_000_000).toFixed(1))}M` : `${Math.round(tokens / 1000)}K`;
+}
+
+function describePricing(inputPerMillion: number, outputPerMillion: number): string {
+    if (inputPerMillion === 0 && outputPerMillion === 0) {
+        return 'Free';
+    }
+    return `$${Number(inputPerMillion.toFixed(2))} / $${Number(outputPerMillion.toFixed(2))} per M tokens`;
+}
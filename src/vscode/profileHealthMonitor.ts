@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+import { ProfileService } from '../services/profileService';
+import { ConfigurationProvider } from './configProvider';
+import { testConnection } from '../providers/connectionTest';
+import { classifyProviderError, describeProviderError, ProviderError } from '../providers/errors';
+import { logger } from '../utils/logger';
+
+export type ProfileHealth =
+    | { status: 'unknown' }
+    | { status: 'healthy'; latencyMs?: number }
+    | { status: 'failing'; error: ProviderError };
+
+/**
+ * Tracks whether the active profile works: tests its connection periodically
+ * and when it changes, and records the outcome of completion requests.
+ */
+export class ProfileHealthMonitor implements vscode.Disposable {
+    private profileService: ProfileService;
+    private configProvider: ConfigurationProvider;
+    private disposables: vscode.Disposable[] = [];
+    private interval: NodeJS.Timeout | undefined;
+    private checking = false;
+    private _health: ProfileHealth = { status: 'unknown' };
+
+    private _onDidChangeHealth = new vscode.EventEmitter<ProfileHealth>();
+    public readonly onDidChangeHealth = this._onDidChangeHealth.event;
+
+    constructor(profileService: ProfileService, configProvider: ConfigurationProvider) {
+        this.profileService = profileService;
+        this.configProvider = configProvider;
+
+        this.disposables.push(
+            this._onDidChangeHealth,
+            this.profileService.onDidActiveProfileChange(() => {
+                this.setHealth({ status: 'unknown' });
+                this.checkInBackground();
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('tabcoder.healthCheck')) {
+                    this.schedule();
+                }
+            })
+        );
+
+        this.schedule();
+        this.checkInBackground();
+    }
+
+    public get health(): ProfileHealth {
+        return this._health;
+    }
+
+    /**
+     * Test the connection of the active profile now.
+     */
+    public async check(): Promise<void> {
+        if (this.checking) {
+            return;
+        }
+        this.checking = true;
+
+        try {
+            const profile = await this.profileService.getActiveProfile();
+            if (!profile) {
+                this.setHealth({ status: 'unknown' });
+                return;
+            }
+
+            const result = await testConnection(profile);
+            if (result.ok) {
+                this.setHealth({ status: 'healthy', latencyMs: result.latencyMs });
+            } else {
+                logger.warn(`Health check of profile ${profile.name} failed: ${describeProviderError(result.error)} (${result.error.message})`);
+                this.setHealth({ status: 'failing', error: result.error });
+            }
+        } catch (error) {
+            logger.error('Error during profile health check:', error);
+        } finally {
+            this.checking = false;
+        }
+    }
+
+    // Background checks are disabled with an interval of 0.
+    private checkInBackground(): void {
+        if (this.configProvider.getConfiguration().healthCheck.intervalMinutes > 0) {
+            this.check();
+        }
+    }
+
+    public reportSuccess(): void {
+        if (this._health.status !== 'healthy') {
+            this.setHealth({ status: 'healthy' });
+        }
+    }
+
+    public reportFailure(error: unknown): void {
+        this.setHealth({ status: 'failing', error: classifyProviderError(error) });
+    }
+
+    private setHealth(health: ProfileHealth): void {
+        const changed = JSON.stringify(health) !== JSON.stringify(this._health);
+        this._health = health;
+        if (changed) {
+            this._onDidChangeHealth.fire(health);
+        }
+    }
+
+    private schedule(): void {
+        if (this.interval) {
+            clearInterval(this.interval);
+            this.interval = undefined;
+        }
+
+        const { intervalMinutes } = this.configProvider.getConfiguration().healthCheck;
+        if (intervalMinutes > 0) {
+            this.interval = setInterval(() => this.check(), intervalMinutes * 60 * 1000);
+        }
+    }
+
+    public dispose(): void {
+        if (this.interval) {
+            clearInterval(this.interval);
+        }
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -1,14 +1,24 @@
 import * as vscode from 'vscode';
 import { ProfileService } from '../services/profileService';
+import { Profile } from '../types';
+import { EnablementProvider } from './enablementProvider';
+import { ProfileHealthMonitor } from './profileHealthMonitor';
+import { describeProviderError } from '../providers/errors';
 
 export class TabCoderStatusBarProvider {
     private statusBarItem: vscode.StatusBarItem;
     private activeRequests: Set<number> = new Set();
     private profileService: ProfileService;
+    private enablementProvider: EnablementProvider;
+    private healthMonitor: ProfileHealthMonitor;
+    // Fallback profile which served the last completion, undefined when it was the active one.
+    private fallbackProfile: Profile | undefined;
     private disposables: vscode.Disposable[] = [];
 
-    constructor(profileService: ProfileService) {
+    constructor(profileService: ProfileService, enablementProvider: EnablementProvider, healthMonitor: ProfileHealthMonitor) {
         this.profileService = profileService;
+        this.enablementProvider = enablementProvider;
+        this.healthMonitor = healthMonitor;
         
         // Create status bar item in the right side of the status bar
         this.statusBarItem = vscode.window.createStatusBarItem(
@@ -19,7 +29,20 @@ export class TabCoderStatusBarProvider {
         
         // Subscribe to profile changes
         this.disposables.push(
-            this.profileService.onDidActiveProfileChange(this.updateStatusBar, this),
+            this.profileService.onDidActiveProfileChange(() => {
+                this.fallbackProfile = undefined;
+                this.updateStatusBar();
+            }),
+            this.healthMonitor.onDidChangeHealth(this.updateStatusBar, this),
+            // Files of the active editor may be ignored once the ignore files are loaded.
+            this.enablementProvider.onDidChangeIgnoreRules(this.updateStatusBar, this),
+            // The status depends on the language of the active editor.
+            vscode.window.onDidChangeActiveTextEditor(this.updateStatusBar, this),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('tabcoder')) {
+                    this.updateStatusBar();
+                }
+            }),
         );
         
         // Set initial state
@@ -42,6 +65,17 @@ export class TabCoderStatusBarProvider {
         this.activeRequests.delete(requestId);
         this.updateStatusBar();
     }
+    /**
+     * Called when a completion was generated, by the active profile or one of its fallbacks
+     */
+    public onCompletionServed(profile: Profile, activeProfile: Profile): void {
+        const fallbackProfile = profile.id === activeProfile.id ? undefined : profile;
+        if (fallbackProfile?.id !== this.fallbackProfile?.id) {
+            this.fallbackProfile = fallbackProfile;
+            this.updateStatusBar();
+        }
+    }
+
     /**
      * Update the status bar display based on current state
      */
@@ -70,6 +104,8 @@ export class TabCoderStatusBarProvider {
     private async showIdle(): Promise<void> {
         const profiles = this.profileService.listProfiles();
         const activeProfile = await this.profileService.getActiveProfile();
+        const health = this.healthMonitor.health;
+        this.statusBarItem.backgroundColor = undefined;
         
         if (profiles.length === 0) {
             // No profile exist.
@@ -79,13 +115,42 @@ export class TabCoderStatusBarProvider {
             // Profiles exist but no active profile.
             this.statusBarItem.text = '$(code) TabCoder: Disabled';
             this.statusBarItem.tooltip = 'TabCoder - Disabled, no active profile. Click to select a profile.';
+        } else if (this.isDisabledForActiveEditor()) {
+            // Completions are disabled for the language or the file of the active editor.
+            const document = vscode.window.activeTextEditor!.document;
+            this.statusBarItem.text = `$(circle-slash) TabCoder: ${activeProfile.name}`;
+            if (this.enablementProvider.isIgnored(document)) {
+                this.statusBarItem.text = `$(eye-closed) TabCoder: ${activeProfile.name}`;
+                this.statusBarItem.tooltip = `TabCoder - Disabled, ${vscode.workspace.asRelativePath(document.uri)} is ignored by .tabcoderignore or .gitignore`;
+            } else if (this.enablementProvider.isExcluded(document)) {
+                this.statusBarItem.tooltip = `TabCoder - Disabled, ${vscode.workspace.asRelativePath(document.uri)} is excluded`;
+            } else {
+                this.statusBarItem.tooltip = `TabCoder - Disabled for ${document.languageId}. Click to enable.`;
+            }
+        } else if (this.fallbackProfile) {
+            // The active profile failed, a fallback profile served the last completion.
+            this.statusBarItem.text = `$(arrow-swap) TabCoder: ${this.fallbackProfile.name}`;
+            this.statusBarItem.tooltip = `TabCoder - ${activeProfile.name} failed${health.status === 'failing' ? ` (${describeProviderError(health.error)})` : ''}, the last completion was served by the fallback profile ${this.fallbackProfile.name}`;
+            this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        } else if (health.status === 'failing') {
+            // The active profile fails, completions can't be provided.
+            this.statusBarItem.text = `${health.error.kind === 'rate-limit' ? '$(watch)' : '$(error)'} TabCoder: ${activeProfile.name}`;
+            this.statusBarItem.tooltip = `TabCoder - ${activeProfile.name} is failing: ${describeProviderError(health.error)}. Click to test or edit the profile.`;
+            this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
         } else {
             // Active profile exists.
             this.statusBarItem.text = `$(code) TabCoder: ${activeProfile.name}`;
-            this.statusBarItem.tooltip = `TabCoder - Active profile: ${activeProfile.name}`;
+            this.statusBarItem.tooltip = health.status === 'healthy' && health.latencyMs !== undefined
+                ? `TabCoder - Active profile: ${activeProfile.name} (answered in ${health.latencyMs} ms)`
+                : `TabCoder - Active profile: ${activeProfile.name}`;
         }
     }
 
+    private isDisabledForActiveEditor(): boolean {
+        const document = vscode.window.activeTextEditor?.document;
+        return document !== undefined && !this.enablementProvider.isEnabled(document);
+    }
+
     /**
      * Handle status bar click
      */
@@ -101,11 +166,24 @@ export class TabCoderStatusBarProvider {
             await vscode.commands.executeCommand('tabcoder.setActiveProfile');
         } else {
             // Active profile exists - show profile management options
-            const action = await vscode.window.showQuickPick([
+            const actions = [
                 { label: '$(gear) Change Active Profile', command: 'tabcoder.setActiveProfile' },
                 { label: '$(add) Create New Profile', command: 'tabcoder.createProfile' },
+                { label: '$(edit) Edit Profile', command: 'tabcoder.editProfile' },
+                { label: '$(pulse) Test Profile', command: 'tabcoder.testProfile' },
                 { label: '$(trash) Remove Profile', command: 'tabcoder.removeProfile' }
-            ], {
+            ];
+
+            const languageId = vscode.window.activeTextEditor?.document.languageId;
+            if (languageId) {
+                const enabled = this.enablementProvider.isLanguageEnabled(languageId);
+                actions.unshift({
+                    label: enabled ? `$(circle-slash) Disable for ${languageId}` : `$(check) Enable for ${languageId}`,
+                    command: 'tabcoder.toggleLanguage'
+                });
+            }
+
+            const action = await vscode.window.showQuickPick(actions, {
                 placeHolder: `Current profile: ${activeProfile.name}`
             });
             